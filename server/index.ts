@@ -1,16 +1,18 @@
-import dotenv from 'dotenv';
+// First: modules below read their settings from the environment when they load
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import pino from 'pino';
 import pinoHttp from 'pino-http';
 import jobsRouter from './routes/jobs';
 import searchRouter from './routes/search';
-
-dotenv.config();
+import schedulesRouter from './routes/schedules';
+import credentialsRouter from './routes/credentials';
+import librariesRouter from './routes/libraries';
+import { startScheduler } from './lib/scheduler';
+import { logger } from './lib/logger';
 
 const app = express();
 const port = process.env.PORT || 8800;
-const logger = pino();
 
 // Middleware
 app.use(cors());
@@ -20,6 +22,9 @@ app.use(pinoHttp({ logger }));
 // Routes
 app.use('/api', jobsRouter);
 app.use('/api', searchRouter);
+app.use('/api', schedulesRouter);
+app.use('/api', credentialsRouter);
+app.use('/api', librariesRouter);
 
 // Health check
 app.get('/healthz', (req, res) => {
@@ -28,4 +33,5 @@ app.get('/healthz', (req, res) => {
 
 app.listen(port, () => {
   logger.info(`Server running on port ${port}`);
+  startScheduler();
 });
\ No newline at end of file
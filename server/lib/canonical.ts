@@ -0,0 +1,40 @@
+import { createHash } from 'crypto';
+
+/**
+ * URL canonicalization and content fingerprints for crawl deduplication
+ * - canonicalizeUrl: drop fragment and tracking params, sort the query, fold index.html into its directory
+ * - urlKey: canonical URL with the trailing slash folded too, for visited/queued bookkeeping only
+ *   (the slash is kept in the fetched URL so relative links still resolve the way the site intends)
+ * - contentHash: sha256 of whitespace-normalized page text
+ */
+
+const TRACKING_PARAMS = new Set([
+  'gclid', 'dclid', 'fbclid', 'msclkid', 'yclid', 'mc_cid', 'mc_eid',
+  '_ga', '_gl', '_hsenc', '_hsmi', 'igshid', 'ref_src', 'srsltid'
+]);
+const INDEX_FILES = /\/index\.(html?|php|aspx?)$/i;
+
+function isTrackingParam(name: string): boolean {
+  const n = name.toLowerCase();
+  return n.startsWith('utm_') || TRACKING_PARAMS.has(n);
+}
+
+export function canonicalizeUrl(input: string | URL): string {
+  const u = new URL(input.toString());
+  u.hash = '';
+  u.pathname = u.pathname.replace(INDEX_FILES, '/');
+  const params = [...u.searchParams].filter(([k]) => !isTrackingParam(k));
+  params.sort(([a, av], [b, bv]) => (a === b ? av.localeCompare(bv) : a.localeCompare(b)));
+  u.search = new URLSearchParams(params).toString();
+  return u.toString();
+}
+
+export function urlKey(canonical: string): string {
+  const u = new URL(canonical);
+  if (u.pathname.length > 1 && u.pathname.endsWith('/')) u.pathname = u.pathname.slice(0, -1);
+  return u.toString();
+}
+
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text.replace(/\s+/g, ' ').trim()).digest('hex');
+}
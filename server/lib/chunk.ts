@@ -2,14 +2,30 @@
  * Chunking utilities for RAG
  * - normalize: collapse whitespace but preserve markdown heading lines
  * - chunkBySentences: build ~800-token chunks with ~120-token overlap
- * Returns chunk objects: { id, ord, text, meta:{ name, url } }
+ * - chunkPagesToRag: same, page by page, so each chunk can cite the page it came from
+ * - capChunks: hard cap at the embedding model's max input, after any strategy
+ * - sizes are in tokens of the job's tokenizer (see tokenizer.ts); estimateTokens is the fallback
+ * - code files are chunked by symbol instead, see codeChunk.ts
+ * - jobs with chunkStrategy 'markdown' split text files by heading instead, see markdownChunk.ts
+ * Returns chunk objects: { id, ord, text, meta:{ name, url, page?, symbol?, ... } }
  */
 
 export type RagChunk = {
   id: string;
   ord: number;
   text: string;
-  meta: { name: string; url: string };
+  meta: {
+    name: string;
+    url: string;
+    page?: number;
+    // Code chunks (see codeChunk.ts): enclosing symbol, its kind and 1-based line range
+    symbol?: string;
+    symbolKind?: string;
+    startLine?: number;
+    endLine?: number;
+    // Markdown chunks (see markdownChunk.ts): enclosing headings, "Guide > Auth > OAuth"
+    headingPath?: string;
+  };
 };
 
 export function normalize(input: string): string {
@@ -30,7 +46,9 @@ export function normalize(input: string): string {
   return out.join('\n');
 }
 
-function estimateTokens(text: string): number {
+export type TokenCounter = (text: string) => number;
+
+export function estimateTokens(text: string): number {
   // Rough heuristic: ~4 chars per token
   return Math.ceil(text.length / 4);
 }
@@ -75,7 +93,8 @@ export function chunkTextToRag(
   name: string,
   url: string,
   targetTokens: number = 800,
-  overlapTokens: number = 120
+  overlapTokens: number = 120,
+  countTokens: TokenCounter = estimateTokens
 ): RagChunk[] {
   const text = normalize(rawText);
   if (!text) return [];
@@ -100,7 +119,7 @@ export function chunkTextToRag(
     let j = i;
     for (; j < sentences.length; j++) {
       const s = sentences[j];
-      const t = estimateTokens(s);
+      const t = countTokens(s);
       if (buf.length > 0 && tokens + t > targetTokens) break;
       buf.push(s);
       tokens += t;
@@ -116,14 +135,95 @@ export function chunkTextToRag(
       ord++;
     }
     if (j >= sentences.length) break;
-    // Overlap: step back so next chunk includes ~overlapTokens worth of sentences
+    // Overlap: step back so next chunk includes ~overlapTokens worth of sentences, but always start
+    // after this chunk's first sentence: a one-sentence chunk, or an overlap covering the whole
+    // chunk, would otherwise repeat it forever
     let backTokens = 0;
     let k = j - 1;
     while (k >= 0 && backTokens < overlapTokens) {
-      backTokens += estimateTokens(sentences[k]);
+      backTokens += countTokens(sentences[k]);
       k--;
     }
-    i = Math.max(0, j - Math.max(1, (j - 1) - k));
+    i = Math.max(i + 1, j - Math.max(1, (j - 1) - k));
   }
   return chunks;
-}
\ No newline at end of file
+}
+
+/**
+ * Chunk a paged document (see FileRec.pages); chunks never span pages and ords run across the whole file
+ */
+export function chunkPagesToRag(
+  rawText: string,
+  pages: Array<{ page: number; offset: number }>,
+  name: string,
+  url: string,
+  targetTokens: number = 800,
+  overlapTokens: number = 120,
+  countTokens: TokenCounter = estimateTokens
+): RagChunk[] {
+  const chunks: RagChunk[] = [];
+  pages.forEach((p, i) => {
+    const end = pages[i + 1]?.offset ?? rawText.length;
+    for (const c of chunkTextToRag(rawText.slice(p.offset, end), name, url, targetTokens, overlapTokens, countTokens)) {
+      const ord = chunks.length;
+      chunks.push({ ...c, id: `${name}:${ord}`, ord, meta: { ...c.meta, page: p.page } });
+    }
+  });
+  return chunks;
+}
+
+// Longest prefix of `text` within maxTokens, by binary search over its length
+function fittingPrefix(text: string, maxTokens: number, countTokens: TokenCounter): string {
+  let lo = 1;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (countTokens(text.slice(0, mid)) <= maxTokens) lo = mid;
+    else hi = mid - 1;
+  }
+  return text.slice(0, lo);
+}
+
+function splitToFit(text: string, maxTokens: number, countTokens: TokenCounter): string[] {
+  const parts: string[] = [];
+  let buf = '';
+  for (let line of text.split('\n')) {
+    const next = buf ? `${buf}\n${line}` : line;
+    if (countTokens(next) <= maxTokens) {
+      buf = next;
+      continue;
+    }
+    if (buf) parts.push(buf);
+    // A single line over the cap (minified code, a table row) is cut mid-line
+    while (countTokens(line) > maxTokens) {
+      const head = fittingPrefix(line, maxTokens, countTokens);
+      parts.push(head);
+      line = line.slice(head.length);
+    }
+    buf = line;
+  }
+  if (buf.trim()) parts.push(buf);
+  return parts;
+}
+
+/**
+ * Hard cap for chunks a strategy couldn't keep under its target (whole code fences and tables,
+ * very long lines): anything over maxTokens is cut at line breaks, mid-line only as a last resort.
+ * Pieces keep the chunk's metadata and heading path; ords are renumbered.
+ */
+export function capChunks(chunks: RagChunk[], maxTokens: number, countTokens: TokenCounter = estimateTokens): RagChunk[] {
+  const out: RagChunk[] = [];
+  for (const c of chunks) {
+    let parts = [c.text];
+    if (countTokens(c.text) > maxTokens) {
+      const prefix = c.meta.headingPath && c.text.startsWith(`${c.meta.headingPath}\n\n`) ? `${c.meta.headingPath}\n\n` : '';
+      const room = Math.max(1, maxTokens - countTokens(prefix));
+      parts = splitToFit(c.text.slice(prefix.length), room, countTokens).map(p => prefix + p);
+    }
+    for (const text of parts) {
+      const ord = out.length;
+      out.push({ ...c, id: `${c.meta.name}:${ord}`, ord, text });
+    }
+  }
+  return out;
+}
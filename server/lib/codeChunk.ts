@@ -0,0 +1,560 @@
+import path from 'path';
+import { estimateTokens, RagChunk, TokenCounter } from './chunk';
+
+/**
+ * Code chunking by symbol
+ * - TypeScript/JavaScript, Go and Rust are outlined with a bracket scanner that skips strings,
+ *   comments, template literals and regexes; Python is outlined by indentation
+ * - every top-level declaration (function, class, type, impl, ...) becomes a chunk together with
+ *   its doc comments, decorators and attributes; imports and other top-level code are 'module' chunks
+ * - containers too large for one chunk (classes, impls, traits, namespaces) are split into their
+ *   members, each prefixed with the container's signature so the chunk still says where it lives
+ * - anything still too large is cut at line boundaries, repeating the declaration's first line;
+ *   other languages only get the line cuts
+ * - chunk metadata carries the symbol name, its kind and the 1-based line range
+ */
+
+export type CodeLanguage = 'typescript' | 'python' | 'go' | 'rust';
+
+type BraceLanguage = Exclude<CodeLanguage, 'python'>;
+
+// Line indexes are 0-based and inclusive: start includes leading comments and decorators, line is
+// the declaration itself and header the last line of its signature
+type Decl = { name: string; kind: string; start: number; line: number; header: number; end: number; container: boolean };
+
+type ChunkSize = { target: number; count: TokenCounter };
+
+type Piece = { start: number; end: number; text: string; symbol?: string; kind?: string };
+
+type Outline = {
+  decls: Decl[];
+  members: (container: Decl) => Decl[];
+};
+
+const EXTENSIONS: Record<string, CodeLanguage> = {
+  ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+  js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+  py: 'python', pyi: 'python',
+  go: 'go',
+  rs: 'rust'
+};
+
+export function codeLanguage(filePath: string): CodeLanguage | null {
+  return EXTENSIONS[path.extname(filePath).slice(1).toLowerCase()] ?? null;
+}
+
+// --- Bracket languages -------------------------------------------------------------------------
+
+const REGEX_AFTER_WORD = new Set(['return', 'typeof', 'case', 'do', 'else', 'in', 'of', 'yield', 'await', 'void', 'delete']);
+const RUST_CHAR = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/;
+const RUST_RAW_STRING = /^b?r(#*)"/;
+
+/**
+ * Bracket depth ((, [ and {) at the start and end of every line, not counting brackets inside
+ * strings, comments, template literal text or regex literals.
+ */
+function bracketDepths(text: string, lang: BraceLanguage): { start: number[]; end: number[] } {
+  const start = [0];
+  const end: number[] = [];
+  const n = text.length;
+  let depth = 0;
+  let i = 0;
+  let prev = '';
+  // Braces opened inside each open `${ ... }` of a template literal
+  const templates: number[] = [];
+
+  const newline = () => {
+    end.push(depth);
+    start.push(depth);
+  };
+  // Skip to just past `close`; single-line strings end at a newline even when unterminated
+  const skipQuoted = (close: string, escapes: boolean, singleLine: boolean) => {
+    while (i < n) {
+      const c = text[i];
+      if (c === '\n') {
+        if (singleLine) return;
+        newline();
+      } else if (escapes && c === '\\') {
+        if (text[i + 1] === '\n') newline();
+        i += 2;
+        continue;
+      } else if (text.startsWith(close, i)) {
+        i += close.length;
+        return;
+      }
+      i++;
+    }
+  };
+  const skipTemplate = () => {
+    while (i < n) {
+      const c = text[i];
+      if (c === '\n') newline();
+      else if (c === '\\') {
+        if (text[i + 1] === '\n') newline();
+        i += 2;
+        continue;
+      } else if (c === '`') {
+        i++;
+        return;
+      } else if (c === '$' && text[i + 1] === '{') {
+        templates.push(0);
+        i += 2;
+        return;
+      }
+      i++;
+    }
+  };
+  const regexAllowed = () => {
+    if (!prev || '(,=:[!&|?{};+-*%<>~^'.includes(prev)) return true;
+    const word = /([A-Za-z_$][\w$]*)\s*$/.exec(text.slice(Math.max(0, i - 12), i));
+    return !!word && REGEX_AFTER_WORD.has(word[1]!);
+  };
+
+  while (i < n) {
+    const c = text[i]!;
+    if (c === '\n') {
+      newline();
+      i++;
+      continue;
+    }
+    if (c === ' ' || c === '\t' || c === '\r') {
+      i++;
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '/') {
+      while (i < n && text[i] !== '\n') i++;
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '*') {
+      i += 2;
+      skipQuoted('*/', false, false);
+      continue;
+    }
+    if (c === '"') {
+      i++;
+      skipQuoted('"', true, lang !== 'rust');
+    } else if (c === "'") {
+      if (lang === 'rust') {
+        // A char literal, or else a lifetime ('a) which is just skipped
+        const m = RUST_CHAR.exec(text.slice(i, i + 16));
+        i += m ? m[0].length : 1;
+      } else {
+        i++;
+        skipQuoted("'", true, true);
+      }
+    } else if (c === '`' && lang !== 'rust') {
+      i++;
+      if (lang === 'go') skipQuoted('`', false, false);
+      else skipTemplate();
+    } else if (lang === 'rust' && (c === 'r' || c === 'b') && !/[\w]/.test(text[i - 1] ?? '') && RUST_RAW_STRING.test(text.slice(i, i + 260))) {
+      const m = RUST_RAW_STRING.exec(text.slice(i, i + 260))!;
+      i += m[0].length;
+      skipQuoted(`"${m[1]}`, false, false);
+    } else if (lang === 'typescript' && c === '/' && regexAllowed()) {
+      i++;
+      let inClass = false;
+      while (i < n && text[i] !== '\n') {
+        const ch = text[i];
+        if (ch === '\\') {
+          i += 2;
+          continue;
+        }
+        i++;
+        if (ch === '[') inClass = true;
+        else if (ch === ']') inClass = false;
+        else if (ch === '/' && !inClass) break;
+      }
+    } else if (c === '(' || c === '[' || c === '{') {
+      depth++;
+      if (c === '{' && templates.length) templates[templates.length - 1]!++;
+      i++;
+    } else if (c === ')' || c === ']' || c === '}') {
+      if (c === '}' && templates.length && templates[templates.length - 1] === 0) {
+        // End of a template `${ ... }`: back to the literal's text
+        templates.pop();
+        i++;
+        skipTemplate();
+        prev = '`';
+        continue;
+      }
+      if (c === '}' && templates.length) templates[templates.length - 1]!--;
+      depth = Math.max(0, depth - 1);
+      i++;
+    } else {
+      i++;
+    }
+    prev = c;
+  }
+  end.push(depth);
+  return { start, end };
+}
+
+type DeclMatch = { name: string; kind: string; container?: boolean } | null;
+
+const TS_DECL = /^(?:export\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|enum|namespace|module|type|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const TS_DEFAULT = /^export\s+default\s+(?:abstract\s+)?(?:async\s+)?(function|class)\b\s*\*?\s*([A-Za-z_$][\w$]*)?/;
+const TS_MODIFIERS = '(?:(?:public|private|protected|static|readonly|abstract|override|declare|async|accessor|get|set)\\s+)*';
+const TS_METHOD = new RegExp(`^${TS_MODIFIERS}\\*?\\s*(#?[A-Za-z_$][\\w$]*)\\s*[?!]?\\s*(?:<[^>]*>)?\\s*\\(`);
+const TS_ARROW_PROPERTY = new RegExp(`^${TS_MODIFIERS}(#?[A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:\\([^)]*\\)|[A-Za-z_$][\\w$]*)\\s*(?::[^=]+)?=>`);
+const TS_FUNCTION_VALUE = /=\s*(?:async\s*)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>|\($)/;
+const CONTROL_WORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'with', 'super', 'new', 'await', 'typeof']);
+
+const GO_FUNC = /^func\s+(?:\(\s*(?:[A-Za-z_]\w*\s+)?\*?\s*([A-Za-z_]\w*)(?:\[[^\]]*\])?\s*\)\s*)?([A-Za-z_]\w*)/;
+const GO_TYPE = /^type\s+([A-Za-z_]\w*)(?:\[[^\]]*\])?\s+(struct|interface)?/;
+const GO_VALUE = /^(?:var|const)\s+([A-Za-z_]\w*)/;
+
+const RS_VIS = '(?:pub(?:\\([^)]*\\))?\\s+)?';
+const RS_FN = new RegExp(`^${RS_VIS}(?:default\\s+)?(?:const\\s+)?(?:async\\s+)?(?:unsafe\\s+)?(?:extern\\s+"[^"]*"\\s+)?fn\\s+([A-Za-z_]\\w*)`);
+const RS_ITEM = new RegExp(`^${RS_VIS}(?:unsafe\\s+)?(struct|enum|union|trait|type)\\s+([A-Za-z_]\\w*)`);
+const RS_MOD = new RegExp(`^${RS_VIS}mod\\s+([A-Za-z_]\\w*)\\s*\\{`);
+const RS_IMPL = /^(?:unsafe\s+)?impl\b(?:\s*<[^{]*?>)?\s+(.+?)\s*(?:\bwhere\b.*)?\{?\s*$/;
+const RS_MACRO = /^macro_rules!\s*([A-Za-z_]\w*)/;
+const RS_VALUE = new RegExp(`^${RS_VIS}(?:const|static)\\s+(?:mut\\s+)?([A-Za-z_]\\w*)`);
+
+// Variables only count as symbols when they hold a function or span several lines (config objects)
+function valueDecl(name: string, line: string, multiline: boolean): DeclMatch {
+  if (TS_FUNCTION_VALUE.test(line)) return { name, kind: 'function' };
+  return multiline ? { name, kind: 'variable' } : null;
+}
+
+function matchTopLevel(lang: BraceLanguage, line: string): DeclMatch | 'value' {
+  if (lang === 'typescript') {
+    const def = TS_DEFAULT.exec(line);
+    if (def) return { name: def[2] ?? 'default', kind: def[1] === 'class' ? 'class' : 'function', container: def[1] === 'class' };
+    const m = TS_DECL.exec(line);
+    if (!m) return null;
+    const [, keyword, name] = m as unknown as [string, string, string];
+    if (keyword === 'const' || keyword === 'let' || keyword === 'var') return 'value';
+    if (keyword.startsWith('function')) return { name, kind: 'function' };
+    if (keyword === 'module') return { name, kind: 'namespace', container: true };
+    return { name, kind: keyword, container: keyword === 'class' || keyword === 'namespace' };
+  }
+  if (lang === 'go') {
+    const fn = GO_FUNC.exec(line);
+    if (fn) return fn[1] ? { name: `${fn[1]}.${fn[2]}`, kind: 'method' } : { name: fn[2]!, kind: 'function' };
+    const type = GO_TYPE.exec(line);
+    if (type) return { name: type[1]!, kind: type[2] ?? 'type' };
+    return GO_VALUE.test(line) ? 'value' : null;
+  }
+  const fn = RS_FN.exec(line);
+  if (fn) return { name: fn[1]!, kind: 'function' };
+  const item = RS_ITEM.exec(line);
+  if (item) return { name: item[2]!, kind: item[1]!, container: item[1] === 'trait' };
+  const mod = RS_MOD.exec(line);
+  if (mod) return { name: mod[1]!, kind: 'module', container: true };
+  const impl = RS_IMPL.exec(line);
+  if (impl) return { name: impl[1]!.replace(/\s+/g, ' '), kind: 'impl', container: true };
+  const macro = RS_MACRO.exec(line);
+  if (macro) return { name: macro[1]!, kind: 'macro' };
+  return RS_VALUE.test(line) ? 'value' : null;
+}
+
+function valueName(lang: BraceLanguage, line: string): string {
+  if (lang === 'typescript') return TS_DECL.exec(line)?.[2] ?? '';
+  if (lang === 'go') return GO_VALUE.exec(line)?.[1] ?? '';
+  return RS_VALUE.exec(line)?.[1] ?? '';
+}
+
+function matchMember(lang: BraceLanguage, container: Decl, line: string): DeclMatch {
+  if (lang === 'typescript') {
+    if (container.kind === 'namespace') {
+      const inner = matchTopLevel(lang, line);
+      return inner === 'value' ? null : inner;
+    }
+    const m = TS_METHOD.exec(line) ?? TS_ARROW_PROPERTY.exec(line);
+    if (!m || CONTROL_WORDS.has(m[1]!)) return null;
+    return { name: `${container.name}.${m[1]}`, kind: m[1] === 'constructor' ? 'constructor' : 'method' };
+  }
+  if (lang === 'rust') {
+    if (container.kind === 'module') {
+      const inner = matchTopLevel(lang, line);
+      return inner === 'value' ? null : inner;
+    }
+    const fn = RS_FN.exec(line);
+    return fn ? { name: `${container.name}::${fn[1]}`, kind: 'method' } : null;
+  }
+  return null;
+}
+
+const LEADING = /^(\/\/|\/\*|\*|@|#\[|#!\[)/;
+const CONTINUATION_END = /(?:[=(,[{:+\-*|&<>?.]|=>|\bwhere)$/;
+const CONTINUATION_START = /^(?:[{.|&?:+\-*=]|->|where\b)/;
+
+function braceOutline(lines: string[], lang: BraceLanguage): Outline {
+  const depth = bracketDepths(lines.join('\n'), lang);
+  const trimmed = lines.map(l => l.trim());
+
+  // Last line of a statement starting at `s` (at depth d): where its brackets close again,
+  // or the line itself when it is complete
+  const statementEnd = (s: number, d: number): number => {
+    let deeper = false;
+    for (let e = s; e < lines.length; e++) {
+      if (depth.end[e]! > d) {
+        deeper = true;
+        continue;
+      }
+      if (deeper) return e;
+      const next = trimmed.slice(e + 1).find(Boolean) ?? '';
+      if (!CONTINUATION_END.test(trimmed[e]!) && !CONTINUATION_START.test(next)) return e;
+    }
+    return lines.length - 1;
+  };
+  // Comments, decorators and attributes directly above line s
+  const leadingStart = (s: number, d: number, floor: number): number => {
+    let first = s;
+    for (let k = s - 1; k > floor; k--) {
+      if (!trimmed[k]) break;
+      if (depth.start[k]! > d) continue;
+      if (!LEADING.test(trimmed[k]!)) break;
+      first = k;
+    }
+    return first;
+  };
+  // The signature: up to the line that opens the body
+  const headerEnd = (s: number, d: number, e: number): number => {
+    for (let k = s; k <= e; k++) if (depth.end[k]! > d) return k;
+    return s;
+  };
+
+  const scan = (from: number, to: number, d: number, match: (line: string, s: number) => DeclMatch): Decl[] => {
+    const out: Decl[] = [];
+    let floor = from - 1;
+    for (let s = from; s <= to; s++) {
+      if (depth.start[s] !== d || !trimmed[s] || LEADING.test(trimmed[s]!)) continue;
+      const found = match(trimmed[s]!, s);
+      const e = Math.min(statementEnd(s, d), to);
+      if (found) {
+        out.push({ ...found, container: !!found.container, start: leadingStart(s, d, floor), line: s, header: headerEnd(s, d, e), end: e });
+      }
+      floor = e;
+      s = e;
+    }
+    return out;
+  };
+
+  const decls = scan(0, lines.length - 1, 0, (line, s) => {
+    const found = matchTopLevel(lang, line);
+    if (found !== 'value') return found;
+    return valueDecl(valueName(lang, line), line, statementEnd(s, 0) > s);
+  });
+  const members = (container: Decl) => {
+    // Members sit one level inside the body, between the signature and the closing line
+    const d = depth.end[container.header]!;
+    return scan(container.header + 1, container.end - 1, d, line => matchMember(lang, container, line));
+  };
+  return { decls, members };
+}
+
+// --- Python ------------------------------------------------------------------------------------
+
+const PY_DEF = /^(?:async\s+)?def\s+([A-Za-z_]\w*)/;
+const PY_CLASS = /^class\s+([A-Za-z_]\w*)/;
+
+function pythonOutline(lines: string[]): Outline {
+  // Which lines start a statement: not inside a triple-quoted string or an open bracket
+  const statement: boolean[] = [];
+  const insideString: boolean[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    insideString.push(quote !== null);
+    const t = line.trim();
+    statement.push(quote === null && depth === 0 && !!t && !t.startsWith('#'));
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i]!;
+      if (quote) {
+        if (c === '\\') i++;
+        else if (line.startsWith(quote, i)) {
+          i += quote.length - 1;
+          quote = null;
+        }
+        continue;
+      }
+      if (c === '#') break;
+      if (c === '"' || c === "'") {
+        const triple = line.startsWith(c.repeat(3), i);
+        quote = triple ? c.repeat(3) : c;
+        if (triple) i += 2;
+      } else if ('([{'.includes(c)) depth++;
+      else if (')]}'.includes(c)) depth = Math.max(0, depth - 1);
+    }
+    // Single-quoted strings don't continue past the line
+    if (quote && quote.length === 1) quote = null;
+  }
+  const indent = (k: number) => lines[k]!.length - lines[k]!.trimStart().length;
+
+  // Body ends at the last line indented deeper than the header before the next statement at or above its level
+  const blockEnd = (s: number, level: number, to: number): number => {
+    let e = s;
+    for (let k = s + 1; k <= to; k++) {
+      if (statement[k] && indent(k) <= level) break;
+      if (insideString[k] || (lines[k]!.trim() && indent(k) > level)) e = k;
+    }
+    return e;
+  };
+  const headerEnd = (s: number, e: number): number => {
+    for (let k = s; k <= e; k++) if (statement[k + 1] || k === e || /:\s*(#.*)?$/.test(lines[k]!)) return k;
+    return s;
+  };
+
+  const scan = (from: number, to: number, level: number, prefix: string, methods: boolean): Decl[] => {
+    const out: Decl[] = [];
+    let pending: number | null = null; // first decorator line
+    for (let s = from; s <= to; s++) {
+      if (!statement[s] || indent(s) !== level) continue;
+      const t = lines[s]!.trim();
+      if (t.startsWith('@')) {
+        pending ??= s;
+        continue;
+      }
+      const def = PY_DEF.exec(t);
+      const cls = methods ? null : PY_CLASS.exec(t);
+      if (!def && !cls) {
+        pending = null;
+        continue;
+      }
+      let start = pending ?? s;
+      pending = null;
+      while (start > from && lines[start - 1]!.trim().startsWith('#') && indent(start - 1) === level) start--;
+      const e = blockEnd(s, level, to);
+      const name = `${prefix}${(def ?? cls)![1]}`;
+      const kind = cls ? 'class' : methods ? (def![1] === '__init__' ? 'constructor' : 'method') : 'function';
+      out.push({ name, kind, start, line: s, header: headerEnd(s, e), end: e, container: !!cls });
+      s = e;
+    }
+    return out;
+  };
+
+  return {
+    decls: scan(0, lines.length - 1, 0, '', false),
+    members: container => {
+      const first = lines.findIndex((_, k) => k > container.header && k <= container.end && statement[k]);
+      if (first < 0) return [];
+      return scan(first, container.end, indent(first), `${container.name}.`, true);
+    }
+  };
+}
+
+// --- Chunk assembly ----------------------------------------------------------------------------
+
+/**
+ * Lines start..end as pieces of at most size.target tokens, cutting at blank lines where possible.
+ * `context` (a signature) is prepended to every piece; `repeat` only to pieces after the first.
+ */
+function splitLines(
+  lines: string[],
+  start: number,
+  end: number,
+  size: ChunkSize,
+  meta: { symbol?: string; kind?: string },
+  context = '',
+  repeat = ''
+): Piece[] {
+  const pieces: Piece[] = [];
+  // Blank lines at the edges don't belong to the piece's line range
+  while (start <= end && !lines[start]!.trim()) start++;
+  while (end >= start && !lines[end]!.trim()) end--;
+  let s = start;
+  while (s <= end) {
+    const prefix = [context, s > start ? repeat : ''].filter(Boolean).join('\n');
+    let tokens = size.count(prefix);
+    let e = s;
+    while (e < end && tokens + size.count(lines[e]! + '\n') + size.count(lines[e + 1]!) <= size.target) {
+      tokens += size.count(lines[e]! + '\n');
+      e++;
+    }
+    if (e < end) {
+      // Prefer a cut after a blank line in the last quarter of the window
+      for (let k = e; k > s + (e - s) * 0.75; k--) {
+        if (!lines[k]!.trim()) {
+          e = k;
+          break;
+        }
+      }
+    }
+    let last = e;
+    while (last > s && !lines[last]!.trim()) last--;
+    const body = lines.slice(s, last + 1).join('\n');
+    // Closing brackets left over between members aren't worth a chunk
+    if (/[\w"'`]/.test(body)) pieces.push({ start: s, end: last, text: prefix ? `${prefix}\n${body}` : body, ...meta });
+    s = e + 1;
+    while (s <= end && !lines[s]!.trim()) s++;
+  }
+  return pieces;
+}
+
+function declPieces(lines: string[], decl: Decl, outline: Outline, size: ChunkSize, context = ''): Piece[] {
+  const meta = { symbol: decl.name, kind: decl.kind };
+  const text = lines.slice(decl.start, decl.end + 1).join('\n');
+  if (size.count(context ? `${context}\n${text}` : text) <= size.target) {
+    return [{ start: decl.start, end: decl.end, text: context ? `${context}\n${text}` : text, ...meta }];
+  }
+  const signature = lines.slice(decl.line, decl.header + 1).join('\n');
+  const members = decl.container ? outline.members(decl) : [];
+  if (!members.length) {
+    return splitLines(lines, decl.start, decl.end, size, meta, context, lines[decl.line]!);
+  }
+  // The container's own lines (signature, fields, closing brace) go into container pieces;
+  // members get the signature as context
+  const innerContext = [context, signature].filter(Boolean).join('\n');
+  const pieces: Piece[] = [];
+  let cursor = decl.start;
+  const flushGap = (to: number) => {
+    // A bare signature is already repeated in every member
+    const signatureOnly = cursor === decl.line && lines.slice(decl.header + 1, to + 1).every(l => !l.trim());
+    if (to >= cursor && !signatureOnly) pieces.push(...splitLines(lines, cursor, to, size, meta, cursor > decl.start ? innerContext : context));
+  };
+  for (const member of members) {
+    flushGap(member.start - 1);
+    pieces.push(...declPieces(lines, member, outline, size, innerContext));
+    cursor = member.end + 1;
+  }
+  flushGap(decl.end);
+  return pieces;
+}
+
+/**
+ * Chunk a source file by its top-level declarations (see the notes at the top of this file).
+ * Languages without an outliner are cut into line windows.
+ */
+export function chunkCodeToRag(
+  rawText: string,
+  name: string,
+  url: string,
+  targetTokens: number = 800,
+  countTokens: TokenCounter = estimateTokens
+): RagChunk[] {
+  const size: ChunkSize = { target: targetTokens, count: countTokens };
+  const lines = rawText.replace(/\r\n?/g, '\n').split('\n');
+  const lang = codeLanguage(name);
+  let pieces: Piece[];
+  if (!lang) {
+    pieces = splitLines(lines, 0, lines.length - 1, size, {});
+  } else {
+    const outline = lang === 'python' ? pythonOutline(lines) : braceOutline(lines, lang);
+    pieces = [];
+    let cursor = 0;
+    for (const decl of outline.decls) {
+      if (decl.start > cursor) pieces.push(...splitLines(lines, cursor, decl.start - 1, size, { kind: 'module' }));
+      pieces.push(...declPieces(lines, decl, outline, size));
+      cursor = decl.end + 1;
+    }
+    if (cursor < lines.length) pieces.push(...splitLines(lines, cursor, lines.length - 1, size, { kind: 'module' }));
+  }
+
+  return pieces
+    .filter(p => p.text.trim())
+    .map((p, ord) => ({
+      id: `${name}:${ord}`,
+      ord,
+      text: p.text,
+      meta: {
+        name,
+        url,
+        ...(p.symbol ? { symbol: p.symbol } : {}),
+        ...(p.kind ? { symbolKind: p.kind } : {}),
+        startLine: p.start + 1,
+        endLine: p.end + 1
+      }
+    }));
+}
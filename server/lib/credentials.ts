@@ -0,0 +1,155 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { AuthCallback, AuthFailureCallback } from 'isomorphic-git';
+import { deleteCredential, getCredential, listCredentials, upsertCredential } from './db';
+import { logger } from './logger';
+import { registerSecret } from './redact';
+import { RepoProvider } from './remotes';
+
+/**
+ * Git credentials, one per host (host[:port] as in the clone URL)
+ * - tokens are encrypted with AES-256-GCM before they reach SQLite; the host is bound in as AAD
+ * - the key is derived from CREDENTIALS_KEY, or generated once into server/data/credentials.key
+ * - tokens are only decrypted for cloning and never returned by the API; decrypted tokens are
+ *   registered with the log redactor so they can't end up in job logs or errors
+ */
+
+export type CredentialSummary = {
+  host: string;
+  username: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type GitAuth = { username: string; password: string };
+type LogFn = (level: 'info' | 'error' | 'debug', message: string) => void;
+
+const FORMAT = 'v1';
+const KEY_FILE = path.join(process.cwd(), 'server', 'data', 'credentials.key');
+
+// Usernames the hosts expect alongside an access token when none is stored
+const TOKEN_USERNAMES: Record<RepoProvider, string> = {
+  github: 'x-access-token',
+  gitlab: 'oauth2',
+  bitbucket: 'x-token-auth',
+  gitea: 'oauth2',
+  generic: 'git'
+};
+
+const log = logger.child({ module: 'credentials' });
+
+let cachedKey: Buffer | null = null;
+
+function encryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+  let secret = process.env.CREDENTIALS_KEY;
+  if (!secret) {
+    if (!existsSync(KEY_FILE)) {
+      mkdirSync(path.dirname(KEY_FILE), { recursive: true });
+      writeFileSync(KEY_FILE, randomBytes(32).toString('base64'), { mode: 0o600, flag: 'wx' });
+      log.warn(`CREDENTIALS_KEY not set; generated a key in ${KEY_FILE}`);
+    }
+    secret = readFileSync(KEY_FILE, 'utf8').trim();
+  }
+  cachedKey = scryptSync(secret, 'scraper-credentials', 32);
+  return cachedKey;
+}
+
+function encrypt(host: string, token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(host));
+  const data = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return [FORMAT, iv, cipher.getAuthTag(), data].map(p => (typeof p === 'string' ? p : p.toString('base64'))).join('.');
+}
+
+function decrypt(host: string, stored: string): string {
+  const [format, iv, tag, data] = stored.split('.');
+  if (format !== FORMAT || !iv || !tag || data === undefined) throw new Error(`Stored credentials for ${host} are malformed`);
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64'));
+    decipher.setAAD(Buffer.from(host));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error(`Stored credentials for ${host} can't be decrypted (was CREDENTIALS_KEY changed?)`);
+  }
+}
+
+/**
+ * Accepts "host", "host:port" or a URL and returns the lowercase host[:port] credentials are keyed by.
+ */
+export function normalizeHost(input: string): string {
+  const value = input.trim();
+  let host: string;
+  try {
+    host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`).host;
+  } catch {
+    throw new Error(`Invalid host: ${input}`);
+  }
+  if (!host) throw new Error(`Invalid host: ${input}`);
+  return host.toLowerCase();
+}
+
+export function listCredentialSummaries(): CredentialSummary[] {
+  return listCredentials() as CredentialSummary[];
+}
+
+export function getCredentialSummary(host: string): CredentialSummary | null {
+  const row = getCredential(host) as (CredentialSummary & { secret: string }) | undefined;
+  if (!row) return null;
+  const { secret: _secret, ...summary } = row;
+  return summary;
+}
+
+/**
+ * Create or update the credentials for `host`. Without a token the stored one is kept.
+ */
+export function saveCredential(host: string, updates: { username?: string | null; token?: string }): CredentialSummary {
+  const existing = getCredential(host) as { username: string | null; secret: string } | undefined;
+  if (!existing && !updates.token) throw new Error(`A token is required for ${host}`);
+  upsertCredential({
+    host,
+    username: updates.username !== undefined ? updates.username || null : existing?.username ?? null,
+    secret: updates.token ? encrypt(host, updates.token) : existing!.secret,
+    now: new Date().toISOString()
+  });
+  return getCredentialSummary(host)!;
+}
+
+export function removeCredential(host: string): boolean {
+  return deleteCredential(host).changes > 0;
+}
+
+/**
+ * Username and token for `host`, or null when none are stored. The provider picks the username
+ * hosts expect with a bare access token when the stored credentials have none.
+ */
+export function credentialForHost(host: string, provider: RepoProvider): GitAuth | null {
+  const key = host.toLowerCase();
+  const row = getCredential(key) as { username: string | null; secret: string } | undefined;
+  if (!row) return null;
+  const token = decrypt(key, row.secret);
+  registerSecret(token);
+  return { username: row.username || TOKEN_USERNAMES[provider], password: token };
+}
+
+/**
+ * isomorphic-git auth callbacks for a clone. Credentials are looked up by the host of the URL the
+ * server challenges, and only offered once: a rejected token fails the clone instead of retrying.
+ */
+export function gitAuthCallbacks(provider: RepoProvider, log: LogFn): { onAuth: AuthCallback; onAuthFailure: AuthFailureCallback } {
+  return {
+    onAuth: (url) => {
+      const host = new URL(url).host;
+      const auth = credentialForHost(host, provider);
+      if (!auth) throw new Error(`${host} requires authentication; add a token for it under Settings → Git credentials`);
+      log('info', `Using stored credentials for ${host}`);
+      return auth;
+    },
+    onAuthFailure: (url) => {
+      throw new Error(`${new URL(url).host} rejected the stored credentials (check the token and its scopes)`);
+    }
+  };
+}
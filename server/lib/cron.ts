@@ -0,0 +1,125 @@
+/**
+ * Minimal 5-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+ * - supports `*`, lists, ranges, steps (`*\/15`, `1-5/2`), JAN..DEC / SUN..SAT names
+ * - macros: @hourly, @daily (@midnight), @weekly, @monthly, @yearly (@annually)
+ * - as in Vixie cron, when both day fields are restricted a day matches if either does
+ */
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+};
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+// Search horizon for nextRun; covers Feb 29 and similar sparse schedules
+const MAX_SEARCH_YEARS = 8;
+
+function parseValue(raw: string, names: string[] | null, offset: number): number {
+  const upper = raw.toUpperCase();
+  if (names) {
+    const idx = names.indexOf(upper);
+    if (idx >= 0) return idx + offset;
+  }
+  if (!/^\d+$/.test(raw)) throw new Error(`Invalid cron value "${raw}"`);
+  return Number(raw);
+}
+
+function parseField(field: string, min: number, max: number, names: string[] | null = null, offset = 0): Set<number> {
+  const out = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid cron step in "${part}"`);
+    let lo: number;
+    let hi: number;
+    if (range === '*') {
+      lo = min;
+      hi = max;
+    } else if (range!.includes('-')) {
+      const [a, b] = range!.split('-');
+      lo = parseValue(a!, names, offset);
+      hi = parseValue(b!, names, offset);
+    } else {
+      lo = parseValue(range!, names, offset);
+      hi = stepRaw === undefined ? lo : max;
+    }
+    if (lo < min || hi > max || lo > hi) throw new Error(`Cron field "${part}" out of range ${min}-${max}`);
+    for (let v = lo; v <= hi; v += step) out.add(v);
+  }
+  return out;
+}
+
+export function parseCron(expr: string): CronSchedule {
+  const expanded = MACROS[expr.trim().toLowerCase()] ?? expr.trim();
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) throw new Error('Cron expression must have 5 fields: minute hour day month weekday');
+  const [min, hour, dom, month, dow] = fields as [string, string, string, string, string];
+  const daysOfWeek = parseField(dow, 0, 7, DAY_NAMES, 0);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+  return {
+    minutes: parseField(min, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dom, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dom !== '*',
+    dowRestricted: dow !== '*'
+  };
+}
+
+function dayMatches(s: CronSchedule, d: Date): boolean {
+  const dom = s.daysOfMonth.has(d.getUTCDate());
+  const dow = s.daysOfWeek.has(d.getUTCDay());
+  if (s.domRestricted && s.dowRestricted) return dom || dow;
+  if (s.domRestricted) return dom;
+  if (s.dowRestricted) return dow;
+  return true;
+}
+
+/** First matching minute strictly after `after` */
+export function nextRun(schedule: CronSchedule | string, after: Date = new Date()): Date {
+  const s = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+  const d = new Date(after.getTime());
+  d.setUTCSeconds(0, 0);
+  d.setUTCMinutes(d.getUTCMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 3600 * 1000;
+
+  while (d.getTime() <= limit) {
+    if (!s.months.has(d.getUTCMonth() + 1)) {
+      d.setUTCMonth(d.getUTCMonth() + 1, 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(s, d)) {
+      d.setUTCDate(d.getUTCDate() + 1);
+      d.setUTCHours(0, 0);
+      continue;
+    }
+    if (!s.hours.has(d.getUTCHours())) {
+      d.setUTCHours(d.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!s.minutes.has(d.getUTCMinutes())) {
+      d.setUTCMinutes(d.getUTCMinutes() + 1);
+      continue;
+    }
+    return d;
+  }
+  throw new Error('Cron expression never matches');
+}
@@ -1,13 +1,17 @@
 import Database from 'better-sqlite3';
 import { mkdirSync } from 'fs';
 import path from 'path';
+import { redactSecrets } from './redact';
+import type { FileRec } from '../types';
+
+// DATABASE_PATH overrides the default location; ':memory:' gives a throwaway database (tests)
+const dbPath = process.env.DATABASE_PATH || path.join(process.cwd(), 'server', 'data', 'app.db');
 
 // Ensure data directory exists
-const dataDir = path.join(process.cwd(), 'server', 'data');
-mkdirSync(dataDir, { recursive: true });
+if (dbPath !== ':memory:') mkdirSync(path.dirname(dbPath), { recursive: true });
 
 // Initialize database connection
-const db = new Database(path.join(dataDir, 'app.db'));
+const db = new Database(dbPath);
 
 // Database migrations
 db.exec(`
@@ -41,25 +45,149 @@ CREATE TABLE IF NOT EXISTS files (
   text TEXT,
   FOREIGN KEY (jobId) REFERENCES jobs(id)
 );
+
+CREATE TABLE IF NOT EXISTS schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,
+  request TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  missedRunPolicy TEXT NOT NULL DEFAULT 'run-once',
+  createdAt TEXT NOT NULL,
+  nextRunAt TEXT,
+  lastRunAt TEXT,
+  lastJobId TEXT
+);
+
+-- What a vector collection was built with, checked before adding to or searching it
+CREATE TABLE IF NOT EXISTS collections (
+  name TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimension INTEGER NOT NULL,
+  distance TEXT NOT NULL,
+  createdAt TEXT NOT NULL
+);
+
+-- Embedded vector store (VECTOR_STORE=sqlite); vectors are float32 blobs
+CREATE TABLE IF NOT EXISTS vector_collections (
+  name TEXT PRIMARY KEY,
+  size INTEGER NOT NULL,
+  distance TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS vector_points (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  vector BLOB NOT NULL,
+  payload TEXT NOT NULL,
+  PRIMARY KEY (collection, id)
+);
+
+CREATE INDEX IF NOT EXISTS vector_points_url ON vector_points (collection, url);
+
+-- Named groups of jobs searched together; jobIds is a JSON array
+CREATE TABLE IF NOT EXISTS libraries (
+  name TEXT PRIMARY KEY,
+  jobIds TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
+
+-- Chunk text per collection for keyword search; chunk_fts is an FTS5 index over it kept in sync by
+-- the triggers below
+CREATE TABLE IF NOT EXISTS chunk_text (
+  id INTEGER PRIMARY KEY,
+  collection TEXT NOT NULL,
+  pointId TEXT NOT NULL,
+  url TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  text TEXT NOT NULL,
+  UNIQUE (collection, pointId)
+);
+
+CREATE INDEX IF NOT EXISTS chunk_text_url ON chunk_text (collection, url);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS chunk_fts USING fts5(
+  text,
+  content = 'chunk_text',
+  content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS chunk_text_ai AFTER INSERT ON chunk_text BEGIN
+  INSERT INTO chunk_fts (rowid, text) VALUES (new.id, new.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS chunk_text_ad AFTER DELETE ON chunk_text BEGIN
+  INSERT INTO chunk_fts (chunk_fts, rowid, text) VALUES ('delete', old.id, old.text);
+END;
+
+CREATE TRIGGER IF NOT EXISTS chunk_text_au AFTER UPDATE ON chunk_text BEGIN
+  INSERT INTO chunk_fts (chunk_fts, rowid, text) VALUES ('delete', old.id, old.text);
+  INSERT INTO chunk_fts (rowid, text) VALUES (new.id, new.text);
+END;
+
+CREATE TABLE IF NOT EXISTS credentials (
+  host TEXT PRIMARY KEY,
+  username TEXT,
+  secret TEXT NOT NULL,
+  createdAt TEXT NOT NULL,
+  updatedAt TEXT NOT NULL
+);
 `);
 
+// Additive migrations for databases created before these columns existed
+const addColumn = (table: string, column: string, type: string) => {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+  if (!cols.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+};
+
+addColumn('jobs', 'request', 'TEXT');
+addColumn('files', 'etag', 'TEXT');
+addColumn('files', 'lastModified', 'TEXT');
+addColumn('files', 'contentHash', 'TEXT');
+addColumn('jobs', 'scheduleId', 'TEXT');
+addColumn('files', 'pages', 'TEXT');
+addColumn('files', 'commitSha', 'TEXT');
+addColumn('jobs', 'revisions', 'TEXT');
+addColumn('jobs', 'repoFailures', 'TEXT');
+addColumn('jobs', 'embeddingProvider', 'TEXT');
+addColumn('jobs', 'embeddingModel', 'TEXT');
+addColumn('jobs', 'embeddingDimension', 'INTEGER');
+
 // Helper functions
 export const createJob = (job: {
   id: string;
   type: string;
   format: string;
   createdAt: string;
+  request?: unknown;
+  scheduleId?: string;
 }) => {
   return db.prepare(`
-    INSERT INTO jobs (id, status, type, format, createdAt)
-    VALUES (?, 'queued', ?, ?, ?)
-  `).run(job.id, job.type, job.format, job.createdAt);
+    INSERT INTO jobs (id, status, type, format, createdAt, request, scheduleId)
+    VALUES (?, 'queued', ?, ?, ?, ?, ?)
+  `).run(
+    job.id,
+    job.type,
+    job.format,
+    job.createdAt,
+    job.request === undefined ? null : JSON.stringify(job.request),
+    job.scheduleId ?? null
+  );
 };
 
 export const updateJob = (id: string, updates: {
   status?: string;
   progress?: number;
-  error?: string;
+  error?: string | null;
+  revisions?: unknown;
+  repoFailures?: unknown;
+  embedding?: { provider: string; model: string; dimension: number };
 }) => {
   const setClauses = [];
   const params = [];
@@ -74,7 +202,19 @@ export const updateJob = (id: string, updates: {
   }
   if (updates.error !== undefined) {
     setClauses.push('error = ?');
-    params.push(updates.error);
+    params.push(updates.error === null ? null : redactSecrets(updates.error));
+  }
+  if (updates.revisions !== undefined) {
+    setClauses.push('revisions = ?');
+    params.push(JSON.stringify(updates.revisions));
+  }
+  if (updates.repoFailures !== undefined) {
+    setClauses.push('repoFailures = ?');
+    params.push(redactSecrets(JSON.stringify(updates.repoFailures)));
+  }
+  if (updates.embedding !== undefined) {
+    setClauses.push('embeddingProvider = ?', 'embeddingModel = ?', 'embeddingDimension = ?');
+    params.push(updates.embedding.provider, updates.embedding.model, updates.embedding.dimension);
   }
   
   params.push(id);
@@ -83,11 +223,12 @@ export const updateJob = (id: string, updates: {
   `).run(...params);
 };
 
+// Messages can carry error text from remote servers, so known secrets are masked before storing
 export const appendLog = (jobId: string, level: string, message: string) => {
   return db.prepare(`
     INSERT INTO logs (jobId, ts, level, message)
     VALUES (?, datetime('now'), ?, ?)
-  `).run(jobId, level, message);
+  `).run(jobId, level, redactSecrets(message));
 };
 
 export const saveFiles = (jobId: string, files: Array<{
@@ -97,10 +238,15 @@ export const saveFiles = (jobId: string, files: Array<{
   type: string;
   sizeBytes?: number;
   text?: string;
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+  pages?: Array<{ page: number; offset: number }>;
+  commit?: string;
 }>) => {
   const insert = db.prepare(`
-    INSERT INTO files (jobId, ord, name, url, type, sizeBytes, text)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO files (jobId, ord, name, url, type, sizeBytes, text, etag, lastModified, contentHash, pages, commitSha)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
   
   const transaction = db.transaction((files) => {
@@ -112,7 +258,12 @@ export const saveFiles = (jobId: string, files: Array<{
         file.url,
         file.type,
         file.sizeBytes,
-        file.text
+        file.text,
+        file.etag ?? null,
+        file.lastModified ?? null,
+        file.contentHash ?? null,
+        file.pages ? JSON.stringify(file.pages) : null,
+        file.commit ?? null
       );
     }
   });
@@ -120,9 +271,15 @@ export const saveFiles = (jobId: string, files: Array<{
   return transaction(files);
 };
 
+export const deleteFiles = (jobId: string) => {
+  return db.prepare(`
+    DELETE FROM files WHERE jobId = ?
+  `).run(jobId);
+};
+
 export const listJobs = () => {
   return db.prepare(`
-    SELECT id, status, type, format, createdAt
+    SELECT id, status, type, format, createdAt, scheduleId
     FROM jobs
     ORDER BY createdAt DESC
     LIMIT 50
@@ -135,10 +292,38 @@ export const getJob = (id: string) => {
   `).get(id);
 };
 
-export const getFiles = (jobId: string) => {
-  return db.prepare(`
+type FileRow = {
+  ord: number;
+  name: string;
+  url: string;
+  type: FileRec['type'];
+  sizeBytes: number | null;
+  text: string | null;
+  etag: string | null;
+  lastModified: string | null;
+  contentHash: string | null;
+  pages: string | null;
+  commitSha: string | null;
+};
+
+// Files as saveFiles stored them
+export const getFiles = (jobId: string): FileRec[] => {
+  const rows = db.prepare(`
     SELECT * FROM files WHERE jobId = ? ORDER BY ord
-  `).all(jobId);
+  `).all(jobId) as FileRow[];
+  return rows.map(f => ({
+    ord: f.ord,
+    name: f.name,
+    url: f.url,
+    type: f.type,
+    text: f.text ?? undefined,
+    sizeBytes: f.sizeBytes ?? undefined,
+    etag: f.etag ?? undefined,
+    lastModified: f.lastModified ?? undefined,
+    contentHash: f.contentHash ?? undefined,
+    pages: f.pages ? JSON.parse(f.pages) : undefined,
+    commit: f.commitSha ?? undefined
+  }));
 };
 
 export const getLogs = (jobId: string) => {
@@ -147,4 +332,229 @@ export const getLogs = (jobId: string) => {
   `).all(jobId);
 };
 
-export default db;
\ No newline at end of file
+export const createSchedule = (schedule: {
+  id: string;
+  name: string;
+  cron: string;
+  request: unknown;
+  enabled: boolean;
+  missedRunPolicy: string;
+  createdAt: string;
+  nextRunAt: string | null;
+}) => {
+  return db.prepare(`
+    INSERT INTO schedules (id, name, cron, request, enabled, missedRunPolicy, createdAt, nextRunAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    schedule.id,
+    schedule.name,
+    schedule.cron,
+    JSON.stringify(schedule.request),
+    schedule.enabled ? 1 : 0,
+    schedule.missedRunPolicy,
+    schedule.createdAt,
+    schedule.nextRunAt
+  );
+};
+
+export const updateSchedule = (id: string, updates: {
+  name?: string;
+  cron?: string;
+  request?: unknown;
+  enabled?: boolean;
+  missedRunPolicy?: string;
+  nextRunAt?: string | null;
+  lastRunAt?: string;
+  lastJobId?: string;
+}) => {
+  const setClauses = [];
+  const params = [];
+
+  for (const key of ['name', 'cron', 'missedRunPolicy', 'nextRunAt', 'lastRunAt', 'lastJobId'] as const) {
+    if (updates[key] !== undefined) {
+      setClauses.push(`${key} = ?`);
+      params.push(updates[key]);
+    }
+  }
+  if (updates.request !== undefined) {
+    setClauses.push('request = ?');
+    params.push(JSON.stringify(updates.request));
+  }
+  if (updates.enabled !== undefined) {
+    setClauses.push('enabled = ?');
+    params.push(updates.enabled ? 1 : 0);
+  }
+  if (!setClauses.length) return;
+
+  params.push(id);
+  return db.prepare(`
+    UPDATE schedules SET ${setClauses.join(', ')} WHERE id = ?
+  `).run(...params);
+};
+
+export const deleteSchedule = (id: string) => {
+  return db.prepare(`
+    DELETE FROM schedules WHERE id = ?
+  `).run(id);
+};
+
+export const getSchedule = (id: string) => {
+  return db.prepare(`
+    SELECT * FROM schedules WHERE id = ?
+  `).get(id);
+};
+
+export const listSchedules = () => {
+  return db.prepare(`
+    SELECT * FROM schedules ORDER BY createdAt DESC
+  `).all();
+};
+
+// ISO-8601 UTC timestamps compare correctly as strings
+export const listDueSchedules = (now: string) => {
+  return db.prepare(`
+    SELECT * FROM schedules
+    WHERE enabled = 1 AND nextRunAt IS NOT NULL AND nextRunAt <= ?
+    ORDER BY nextRunAt
+  `).all(now);
+};
+
+export const listScheduleJobs = (scheduleId: string, limit = 10) => {
+  return db.prepare(`
+    SELECT id, status, progress, createdAt, error
+    FROM jobs
+    WHERE scheduleId = ?
+    ORDER BY createdAt DESC
+    LIMIT ?
+  `).all(scheduleId, limit);
+};
+
+// `secret` is the encrypted token (see lib/credentials); it never leaves the server
+export const upsertCredential = (credential: {
+  host: string;
+  username: string | null;
+  secret: string;
+  now: string;
+}) => {
+  return db.prepare(`
+    INSERT INTO credentials (host, username, secret, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(host) DO UPDATE SET username = excluded.username, secret = excluded.secret, updatedAt = excluded.updatedAt
+  `).run(credential.host, credential.username, credential.secret, credential.now, credential.now);
+};
+
+export const getCredential = (host: string) => {
+  return db.prepare(`
+    SELECT * FROM credentials WHERE host = ?
+  `).get(host);
+};
+
+export const listCredentials = () => {
+  return db.prepare(`
+    SELECT host, username, createdAt, updatedAt FROM credentials ORDER BY host
+  `).all();
+};
+
+export const deleteCredential = (host: string) => {
+  return db.prepare(`
+    DELETE FROM credentials WHERE host = ?
+  `).run(host);
+};
+
+export const saveCollectionMeta = (meta: {
+  name: string;
+  provider: string;
+  model: string;
+  dimension: number;
+  distance: string;
+  now: string;
+}) => {
+  return db.prepare(`
+    INSERT INTO collections (name, provider, model, dimension, distance, createdAt)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      provider = excluded.provider,
+      model = excluded.model,
+      dimension = excluded.dimension,
+      distance = excluded.distance,
+      createdAt = excluded.createdAt
+  `).run(meta.name, meta.provider, meta.model, meta.dimension, meta.distance, meta.now);
+};
+
+export const getCollectionMeta = (name: string) => {
+  return db.prepare(`
+    SELECT * FROM collections WHERE name = ?
+  `).get(name);
+};
+
+export const saveLibrary = (library: { name: string; jobIds: string[]; now: string }) => {
+  return db.prepare(`
+    INSERT INTO libraries (name, jobIds, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      jobIds = excluded.jobIds,
+      updatedAt = excluded.updatedAt
+  `).run(library.name, JSON.stringify(library.jobIds), library.now, library.now);
+};
+
+export const getLibrary = (name: string) => {
+  return db.prepare(`
+    SELECT * FROM libraries WHERE name = ?
+  `).get(name);
+};
+
+export const listLibraries = () => {
+  return db.prepare(`
+    SELECT * FROM libraries ORDER BY name
+  `).all();
+};
+
+export const deleteLibrary = (name: string) => {
+  return db.prepare(`
+    DELETE FROM libraries WHERE name = ?
+  `).run(name);
+};
+
+export const saveChunkText = (
+  collection: string,
+  chunks: Array<{ pointId: string; url: string; payload: unknown; text: string }>
+) => {
+  const stmt = db.prepare(`
+    INSERT INTO chunk_text (collection, pointId, url, payload, text)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(collection, pointId) DO UPDATE SET
+      url = excluded.url,
+      payload = excluded.payload,
+      text = excluded.text
+  `);
+  db.transaction(() => {
+    for (const c of chunks) stmt.run(collection, c.pointId, c.url, JSON.stringify(c.payload), c.text);
+  })();
+};
+
+export const deleteChunkText = (collection: string, urls: string[]) => {
+  const stmt = db.prepare(`
+    DELETE FROM chunk_text WHERE collection = ? AND url = ?
+  `);
+  db.transaction(() => {
+    for (const url of urls) stmt.run(collection, url);
+  })();
+};
+
+/**
+ * BM25 matches of an FTS5 query in one collection, best first. `rank` is FTS5's bm25() (lower is
+ * better); `snippet` marks matched terms with \u0001 ... \u0002.
+ */
+export const searchChunkText = (collection: string, match: string, limit: number) => {
+  return db.prepare(`
+    SELECT c.pointId, c.payload, bm25(chunk_fts) AS rank,
+      snippet(chunk_fts, 0, char(1), char(2), '…', 40) AS snippet
+    FROM chunk_fts
+    JOIN chunk_text c ON c.id = chunk_fts.rowid
+    WHERE chunk_fts MATCH ? AND c.collection = ?
+    ORDER BY rank
+    LIMIT ?
+  `).all(match, collection, limit) as Array<{ pointId: string; payload: string; rank: number; snippet: string }>;
+};
+
+export default db;
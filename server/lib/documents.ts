@@ -0,0 +1,168 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import { DocumentKind, PageSpan } from '../types';
+
+/**
+ * Text extraction for binary documents found by crawls and in repos
+ * - detectDocumentKind: Content-Type first, then the URL's file extension for generic types
+ * - PDF pages come from unpdf (pdf.js), PPTX pages are slides in presentation order
+ * - DOCX has no fixed pages; breaks come from the page markers Word saves (approximate)
+ * - output is Markdown-ish text plus the offset where each page starts, for page-level citations
+ */
+
+export type ExtractedDocument = {
+  title: string;
+  text: string;
+  pages: PageSpan[];
+};
+
+const CONTENT_TYPES: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/x-pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx'
+};
+// Servers often send these for any download, so fall back to the URL's extension
+const GENERIC_TYPES = new Set(['', 'application/octet-stream', 'binary/octet-stream', 'application/download', 'application/x-download']);
+const EXTENSION = /\.(pdf|docx|pptx)$/i;
+
+export function documentKindFromPath(pathname: string): DocumentKind | null {
+  const m = EXTENSION.exec(pathname);
+  return m ? (m[1]!.toLowerCase() as DocumentKind) : null;
+}
+
+export function detectDocumentKind(contentType: string | null | undefined, url: string): DocumentKind | null {
+  const mime = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+  if (CONTENT_TYPES[mime]) return CONTENT_TYPES[mime]!;
+  if (!GENERIC_TYPES.has(mime)) return null;
+  try {
+    return documentKindFromPath(new URL(url).pathname);
+  } catch {
+    return null;
+  }
+}
+
+function joinPages(pageTexts: string[]): { text: string; pages: PageSpan[] } {
+  const pages: PageSpan[] = [];
+  let text = '';
+  pageTexts.forEach((t, i) => {
+    const body = t.trim();
+    if (!body) return;
+    if (text) text += '\n\n';
+    pages.push({ page: i + 1, offset: text.length });
+    text += body;
+  });
+  return { text, pages };
+}
+
+async function extractPdf(data: Uint8Array): Promise<ExtractedDocument> {
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  // pdf.js rejects Node Buffers and may detach what it's given, so hand it a plain copy
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  try {
+    const meta = await pdf.getMetadata().catch(() => null);
+    const title = String((meta?.info as Record<string, unknown> | undefined)?.Title ?? '').trim();
+    const { text } = await extractText(pdf, { mergePages: false });
+    return { title, ...joinPages(text) };
+  } finally {
+    await pdf.destroy().catch(() => {});
+  }
+}
+
+async function extractDocx(zip: JSZip): Promise<ExtractedDocument> {
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) throw new Error('Not a DOCX file (word/document.xml missing)');
+  const $ = cheerio.load(xml, { xml: true });
+  const pageTexts: string[] = [];
+  let lines: string[] = [];
+  let title = '';
+
+  // Top-level paragraphs only; text boxes nested in a paragraph are read as part of it
+  const paragraphs = $('w\\:body w\\:p').filter((_, p) => $(p).parents('w\\:p').length === 0);
+  paragraphs.each((_, p) => {
+    const para = $(p);
+    const startsPage =
+      para.find('w\\:lastRenderedPageBreak, w\\:br[w\\:type="page"]').length > 0 ||
+      para.find('w\\:pPr > w\\:pageBreakBefore').length > 0;
+    if (startsPage && lines.length) {
+      pageTexts.push(lines.join('\n\n'));
+      lines = [];
+    }
+
+    let text = '';
+    para.find('w\\:t, w\\:tab, w\\:br').each((_, el) => {
+      const name = (el as unknown as { name: string }).name;
+      if (name === 'w:t') text += $(el).text();
+      else if (name === 'w:tab') text += '\t';
+      else if ($(el).attr('w:type') !== 'page') text += '\n';
+    });
+    text = text.trim();
+    if (!text) return;
+
+    const style = para.find('w\\:pPr > w\\:pStyle').attr('w:val') ?? '';
+    const heading = /^Heading([1-6])$/i.exec(style);
+    if (/^Title$/i.test(style)) {
+      if (!title) title = text;
+      lines.push(`# ${text}`);
+    } else if (heading) {
+      lines.push(`${'#'.repeat(Number(heading[1]))} ${text}`);
+    } else if (para.find('w\\:pPr > w\\:numPr').length) {
+      lines.push(`- ${text}`);
+    } else {
+      lines.push(text);
+    }
+  });
+  if (lines.length) pageTexts.push(lines.join('\n\n'));
+  return { title, ...joinPages(pageTexts) };
+}
+
+async function extractPptx(zip: JSZip): Promise<ExtractedDocument> {
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  const rels = await zip.file('ppt/_rels/presentation.xml.rels')?.async('string');
+  if (!presentation || !rels) throw new Error('Not a PPTX file (ppt/presentation.xml missing)');
+
+  // Slide order is the sldIdLst order, resolved to part names through the relationships file
+  const $rels = cheerio.load(rels, { xml: true });
+  const targets = new Map<string, string>();
+  $rels('Relationship').each((_, r) => {
+    targets.set($rels(r).attr('Id') ?? '', $rels(r).attr('Target') ?? '');
+  });
+  const $p = cheerio.load(presentation, { xml: true });
+  const slidePaths = $p('p\\:sldIdLst > p\\:sldId')
+    .map((_, s) => targets.get($p(s).attr('r:id') ?? ''))
+    .get()
+    .filter(Boolean)
+    .map(t => (t.startsWith('/') ? t.slice(1) : `ppt/${t}`));
+
+  const pageTexts: string[] = [];
+  for (const slidePath of slidePaths) {
+    const xml = await zip.file(slidePath)?.async('string');
+    if (!xml) {
+      pageTexts.push('');
+      continue;
+    }
+    const $ = cheerio.load(xml, { xml: true });
+    const lines: string[] = [];
+    $('p\\:sp').each((_, sp) => {
+      const shape = $(sp);
+      const paras = shape
+        .find('a\\:p')
+        .map((_, ap) => $(ap).find('a\\:t').map((_, t) => $(t).text()).get().join('').trim())
+        .get()
+        .filter(Boolean);
+      if (!paras.length) return;
+      const placeholder = shape.find('p\\:nvPr > p\\:ph').attr('type');
+      if (placeholder === 'title' || placeholder === 'ctrTitle') lines.push(`## ${paras.join(' ')}`);
+      else lines.push(...paras);
+    });
+    pageTexts.push(lines.join('\n\n'));
+  }
+  const firstHeading = pageTexts.find(t => t.startsWith('## '));
+  return { title: firstHeading ? firstHeading.split('\n')[0]!.slice(3) : '', ...joinPages(pageTexts) };
+}
+
+export async function extractDocument(kind: DocumentKind, data: Uint8Array): Promise<ExtractedDocument> {
+  if (kind === 'pdf') return extractPdf(data);
+  const zip = await JSZip.loadAsync(data);
+  return kind === 'docx' ? extractDocx(zip) : extractPptx(zip);
+}
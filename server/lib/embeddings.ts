@@ -0,0 +1,256 @@
+import { fetch } from 'undici';
+import { parseRetryAfter } from './frontier';
+import { registerSecret } from './redact';
+
+/**
+ * Embedding providers
+ * - 'ollama': Ollama's batch endpoint /api/embed at OLLAMA_URL, falling back to one /api/embeddings
+ *   request per text on servers that predate it
+ * - 'openai': any OpenAI-compatible /v1/embeddings endpoint at EMBED_BASE_URL (OpenAI, vLLM,
+ *   LM Studio, LocalAI, TEI), with EMBED_API_KEY as bearer token when set
+ * - 'local': an ONNX model run in-process by the optional "@huggingface/transformers" package;
+ *   weights are fetched from the Hugging Face hub into its cache on first use
+ * - jobs may name a provider and model; otherwise EMBED_PROVIDER / EMBED_MODEL apply. Jobs store
+ *   the resolved pair and the probed vector dimension so search embeds queries the same way.
+ * - HTTP providers retry network errors, timeouts, 429 and 5xx with exponential backoff (or the
+ *   server's Retry-After); other errors fail the batch straight away
+ */
+
+export type EmbeddingProviderName = 'ollama' | 'openai' | 'local';
+
+export type EmbeddingConfig = { provider: EmbeddingProviderName; model: string };
+
+export type EmbeddingProvider = EmbeddingConfig & {
+  // Longest input the model takes, in tokens
+  maxInputTokens: number;
+  // Texts per embed() call
+  maxBatchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+const OLLAMA_URL = process.env.OLLAMA_URL || process.env.OLLAMA_HOST || 'http://localhost:11434';
+const EMBED_PROVIDER = (process.env.EMBED_PROVIDER || 'ollama') as EmbeddingProviderName;
+const EMBED_MODEL = process.env.EMBED_MODEL || undefined;
+const EMBED_BASE_URL = (process.env.EMBED_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+const EMBED_API_KEY = process.env.EMBED_API_KEY || process.env.OPENAI_API_KEY || '';
+const EMBED_MAX_TOKENS = Number(process.env.EMBED_MAX_TOKENS) || 0;
+const EMBED_RETRIES = Number(process.env.EMBED_RETRIES ?? 4);
+const EMBED_TIMEOUT_MS = Number(process.env.EMBED_TIMEOUT_MS || 120000);
+// Longest wait between retries, whatever Retry-After says
+const MAX_RETRY_DELAY_MS = 60000;
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  ollama: process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text',
+  openai: 'text-embedding-3-small',
+  local: 'Xenova/all-MiniLM-L6-v2'
+};
+
+// Context length of common embedding models, in tokens; EMBED_MAX_TOKENS overrides, unknown models get 512
+const MODEL_MAX_TOKENS: Record<string, number> = {
+  'nomic-embed-text': 8192,
+  'nomic-embed-text-v1.5': 8192,
+  'mxbai-embed-large': 512,
+  'all-minilm': 256,
+  'all-MiniLM-L6-v2': 256,
+  'snowflake-arctic-embed': 512,
+  'bge-m3': 8192,
+  'bge-large': 512,
+  'bge-small-en-v1.5': 512,
+  'text-embedding-3-small': 8191,
+  'text-embedding-3-large': 8191,
+  'text-embedding-ada-002': 8191
+};
+
+const PROVIDERS: EmbeddingProviderName[] = ['ollama', 'openai', 'local'];
+if (!PROVIDERS.includes(EMBED_PROVIDER)) {
+  throw new Error(`EMBED_PROVIDER must be one of ${PROVIDERS.join(', ')} (got "${EMBED_PROVIDER}")`);
+}
+if (EMBED_API_KEY) registerSecret(EMBED_API_KEY);
+
+function maxInputTokens(model: string): number {
+  // "Xenova/all-MiniLM-L6-v2" and "nomic-embed-text:latest" are looked up by their bare name
+  const bare = model.split('/').pop()!.split(':')[0];
+  return EMBED_MAX_TOKENS || MODEL_MAX_TOKENS[bare] || 512;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function responseError(res: { status: number; text(): Promise<string> }, what: string): Promise<Error> {
+  const body = await res.text().catch(() => '<no-body>');
+  return new Error(`${what} failed ${res.status}: ${body.slice(0, 500)}`);
+}
+
+/**
+ * POST JSON, retrying transient failures (see the notes at the top of this file). Returns the last
+ * response, ok or not, once it is no longer worth retrying.
+ */
+async function postWithRetry(url: string, headers: Record<string, string>, body: unknown, what: string) {
+  for (let attempt = 0; ; attempt++) {
+    let retryAfterMs: number | undefined;
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(EMBED_TIMEOUT_MS)
+      });
+      const transient = res.status === 429 || res.status >= 500;
+      if (!transient || attempt >= EMBED_RETRIES) return res;
+      retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+      await res.body?.cancel().catch(() => {});
+    } catch (e: any) {
+      if (attempt >= EMBED_RETRIES) throw new Error(`${what} failed: ${e?.message ?? e}`);
+    }
+    await sleep(Math.min(MAX_RETRY_DELAY_MS, retryAfterMs ?? 1000 * 2 ** attempt));
+  }
+}
+
+function ollamaProvider(model: string): EmbeddingProvider {
+  // Set once the server turns out not to have /api/embed (Ollama before 0.3)
+  let legacy = false;
+
+  const embedOne = async (text: string): Promise<number[]> => {
+    const res = await postWithRetry(`${OLLAMA_URL}/api/embeddings`, {}, { model, prompt: text }, 'Ollama embed');
+    if (!res.ok) throw await responseError(res, 'Ollama embed');
+    const json: any = await res.json();
+    const vec: number[] = json?.embedding || json?.data?.[0]?.embedding;
+    if (!Array.isArray(vec)) throw new Error('Invalid embedding response from Ollama');
+    return vec;
+  };
+
+  return {
+    provider: 'ollama',
+    model,
+    maxInputTokens: maxInputTokens(model),
+    maxBatchSize: 32,
+    async embed(texts) {
+      if (!legacy) {
+        const res = await postWithRetry(`${OLLAMA_URL}/api/embed`, {}, { model, input: texts }, 'Ollama embed');
+        if (res.ok) {
+          const json: any = await res.json();
+          const vecs: number[][] | undefined = json?.embeddings;
+          if (!Array.isArray(vecs) || vecs.length !== texts.length) throw new Error('Invalid embedding response from Ollama');
+          return vecs;
+        }
+        // A missing model is a 404 too, but with a JSON error naming it
+        const body = await res.text().catch(() => '');
+        if (res.status !== 404 || /model/i.test(body)) throw new Error(`Ollama embed failed ${res.status}: ${body.slice(0, 500)}`);
+        legacy = true;
+      }
+      const out: number[][] = [];
+      for (const text of texts) out.push(await embedOne(text));
+      return out;
+    }
+  };
+}
+
+function openAiProvider(model: string): EmbeddingProvider {
+  return {
+    provider: 'openai',
+    model,
+    maxInputTokens: maxInputTokens(model),
+    maxBatchSize: 64,
+    async embed(texts) {
+      const res = await postWithRetry(
+        `${EMBED_BASE_URL}/embeddings`,
+        EMBED_API_KEY ? { authorization: `Bearer ${EMBED_API_KEY}` } : {},
+        { model, input: texts },
+        `Embedding request to ${EMBED_BASE_URL}`
+      );
+      if (!res.ok) throw await responseError(res, `Embedding request to ${EMBED_BASE_URL}`);
+      const json: any = await res.json();
+      const data: Array<{ index?: number; embedding: number[] }> | undefined = json?.data;
+      if (!Array.isArray(data) || data.length !== texts.length || !data.every(d => Array.isArray(d?.embedding))) {
+        throw new Error(`Invalid embedding response from ${EMBED_BASE_URL}`);
+      }
+      // Servers may return items out of order; `index` says which input each belongs to
+      return [...data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(d => d.embedding);
+    }
+  };
+}
+
+type FeatureExtractor = (
+  texts: string[],
+  opts: { pooling: 'mean'; normalize: boolean }
+) => Promise<{ tolist(): number[][] }>;
+
+// The part of "@huggingface/transformers" used here. It is an optional dependency, so it is imported
+// by a non-literal specifier: the type-check mustn't need it installed.
+type Transformers = { pipeline(task: 'feature-extraction', model: string): Promise<FeatureExtractor> };
+const TRANSFORMERS_PACKAGE = '@huggingface/transformers';
+
+function localProvider(model: string): EmbeddingProvider {
+  let extractor: Promise<FeatureExtractor> | null = null;
+  const load = async (): Promise<FeatureExtractor> => {
+    let transformers: Transformers;
+    try {
+      transformers = (await import(TRANSFORMERS_PACKAGE)) as Transformers;
+    } catch {
+      throw new Error(`The local embedding provider requires the optional "${TRANSFORMERS_PACKAGE}" package`);
+    }
+    return transformers.pipeline('feature-extraction', model);
+  };
+  return {
+    provider: 'local',
+    model,
+    maxInputTokens: maxInputTokens(model),
+    maxBatchSize: 16,
+    async embed(texts) {
+      if (!extractor) {
+        extractor = load();
+        // Let a failed load (missing package, download error) be retried by the next job
+        extractor.catch(() => {
+          extractor = null;
+        });
+      }
+      const output = await (await extractor)(texts, { pooling: 'mean', normalize: true });
+      return output.tolist();
+    }
+  };
+}
+
+const dimensions = new Map<EmbeddingProvider, number>();
+
+/**
+ * Vector size of a provider's model, found by embedding a probe text (once per process)
+ */
+export async function probeDimension(provider: EmbeddingProvider): Promise<number> {
+  let dimension = dimensions.get(provider);
+  if (!dimension) {
+    const [vector] = await provider.embed(['dimension probe']);
+    if (!vector?.length) throw new Error(`${provider.provider} returned no embedding for ${provider.model}`);
+    dimension = vector.length;
+    dimensions.set(provider, dimension);
+  }
+  return dimension;
+}
+
+/**
+ * Provider and model for a job: the job's own choice, else the environment's.
+ * The model default follows the provider, so picking only a provider works too.
+ */
+export function resolveEmbeddingConfig(job: { embeddingProvider?: EmbeddingProviderName | null; embeddingModel?: string | null }): EmbeddingConfig {
+  const provider = job.embeddingProvider || EMBED_PROVIDER;
+  const model = job.embeddingModel || (provider === EMBED_PROVIDER ? EMBED_MODEL : undefined) || DEFAULT_MODELS[provider];
+  return { provider, model };
+}
+
+// Providers are reused across jobs so an in-process model is only loaded once
+const providers = new Map<string, EmbeddingProvider>();
+
+export function embeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const key = `${config.provider}:${config.model}`;
+  let provider = providers.get(key);
+  if (!provider) {
+    provider =
+      config.provider === 'openai'
+        ? openAiProvider(config.model)
+        : config.provider === 'local'
+          ? localProvider(config.model)
+          : ollamaProvider(config.model);
+    providers.set(key, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,85 @@
+import { searchChunkText } from './db';
+
+/**
+ * Keyword retrieval and rank fusion for /api/search
+ * - keyword search is BM25 over the FTS5 chunk index; each query word is matched as a phrase of
+ *   its own tokens, so `ERR_CONNECTION_REFUSED` or `server.port` match as written, and any word may
+ *   match (more matching words rank higher)
+ * - hybrid search merges the vector and keyword rankings with reciprocal rank fusion: a hit scores
+ *   sum(1 / (RRF_K + rank)) over the retrievers that found it, so neither retriever's raw scores
+ *   need to be comparable
+ */
+
+export type SearchMode = 'vector' | 'keyword' | 'hybrid';
+export type Retriever = 'vector' | 'keyword';
+
+// A snippet with the [start, end) offsets of matched terms in it
+export type Highlighted = { text: string; highlights: Array<[number, number]> };
+
+export type RankedHit = { id: string; score: number; payload: any; snippet?: Highlighted };
+
+export type FusedHit = {
+  id: string;
+  score: number;
+  payload: any;
+  matchedBy: Retriever[];
+  scores: Partial<Record<Retriever, number>>;
+  snippet?: Highlighted;
+};
+
+// The usual constant from the RRF paper; damps the weight of the top few ranks
+const RRF_K = 60;
+const MAX_QUERY_TERMS = 32;
+
+/** FTS5 query for free text, or null when it has nothing to match on */
+export function keywordQuery(text: string): string | null {
+  const terms = [...new Set(text.split(/\s+/).filter(t => /[\p{L}\p{N}]/u.test(t)))].slice(0, MAX_QUERY_TERMS);
+  if (!terms.length) return null;
+  return terms.map(t => `"${t.replace(/"/g, '""')}"`).join(' OR ');
+}
+
+// snippet() output marks matches with \u0001 ... \u0002
+function parseSnippet(marked: string): Highlighted {
+  const highlights: Array<[number, number]> = [];
+  let text = '';
+  let start = -1;
+  for (const ch of marked) {
+    if (ch === '\u0001') start = text.length;
+    else if (ch === '\u0002') {
+      if (start >= 0 && text.length > start) highlights.push([start, text.length]);
+      start = -1;
+    } else text += ch;
+  }
+  return { text, highlights };
+}
+
+/** BM25 hits for `query` in a collection, best first; score is the negated bm25() rank, so higher is better */
+export function keywordSearch(collection: string, query: string, limit: number): RankedHit[] {
+  const match = keywordQuery(query);
+  if (!match) return [];
+  return searchChunkText(collection, match, limit).map(row => ({
+    id: row.pointId,
+    score: -row.rank,
+    payload: JSON.parse(row.payload),
+    snippet: parseSnippet(row.snippet)
+  }));
+}
+
+/** Reciprocal rank fusion of rankings (each best first), best `limit` first */
+export function fuseRankings(rankings: Partial<Record<Retriever, RankedHit[]>>, limit: number): FusedHit[] {
+  const fused = new Map<string, FusedHit>();
+  for (const [retriever, hits] of Object.entries(rankings) as Array<[Retriever, RankedHit[]]>) {
+    hits.forEach((hit, rank) => {
+      let entry = fused.get(hit.id);
+      if (!entry) {
+        entry = { id: hit.id, score: 0, payload: hit.payload, matchedBy: [], scores: {} };
+        fused.set(hit.id, entry);
+      }
+      entry.score += 1 / (RRF_K + rank + 1);
+      entry.matchedBy.push(retriever);
+      entry.scores[retriever] = hit.score;
+      entry.snippet ??= hit.snippet;
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
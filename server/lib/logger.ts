@@ -0,0 +1,4 @@
+import pino from 'pino';
+
+// Server-wide logger, shared by the HTTP layer and background work; LOG_LEVEL sets the level
+export const logger = pino({ level: process.env.LOG_LEVEL || 'info' });
@@ -0,0 +1,246 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * HTML -> Markdown for the docs pipeline
+ * - main content: configured selector, then main / article / [role=main], then body
+ * - keeps heading levels, nested lists, GFM tables, blockquotes, absolute links and images
+ * - <pre> becomes a fenced block with a language hint from language-* / lang-* / highlight-* classes
+ *   (so a <code> inside <pre> is emitted once)
+ */
+
+// Structural view of the domhandler nodes cheerio exposes
+type DomNode = {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+  parent?: DomNode | null;
+};
+
+const MAIN_SELECTORS = ['main', 'article', '[role="main"]'];
+const ALWAYS_NOISY = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'nav', 'aside', 'form', 'button'];
+// Only stripped when we fall back to <body>; inside <main>/<article> a <header> usually carries the page title
+const PAGE_CHROME = ['header', 'footer', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]'];
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'details', 'dialog', 'dd', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+const LANG_CLASS = /(?:^|\s)(?:language|lang|highlight-source|highlight)-([A-Za-z0-9_+#.-]+)/;
+// Stand-in for <br> so whitespace collapsing doesn't eat explicit line breaks
+const BR = '\u0000';
+
+function isTag(n: DomNode, ...names: string[]): boolean {
+  return n.type === 'tag' && !!n.name && names.includes(n.name);
+}
+
+function isBlock(n: DomNode): boolean {
+  return n.type === 'tag' && BLOCK_TAGS.has(n.name ?? '');
+}
+
+function absolutize(href: string, baseUrl: string): string | null {
+  try {
+    const u = new URL(href, baseUrl);
+    return ['http:', 'https:', 'mailto:'].includes(u.protocol) ? u.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function rawText(n: DomNode): string {
+  if (n.type === 'text') return n.data ?? '';
+  if (isTag(n, 'br')) return '\n';
+  return (n.children ?? []).map(rawText).join('');
+}
+
+function codeLanguage(pre: DomNode): string {
+  const candidates: DomNode[] = [];
+  const code = (pre.children ?? []).find(c => isTag(c, 'code'));
+  if (code) candidates.push(code);
+  // Sphinx and friends put highlight-<lang> on wrapping divs
+  for (let n: DomNode | null | undefined = pre; n && candidates.length < 5; n = n.parent) candidates.push(n);
+  for (const c of candidates) {
+    const a = c.attribs ?? {};
+    if (a['data-language']) return a['data-language'];
+    if (a['data-lang']) return a['data-lang'];
+    const m = LANG_CLASS.exec(a.class ?? '');
+    if (m && m[1] !== 'default') return m[1]!;
+  }
+  return '';
+}
+
+function fence(code: string, lang: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(r => r.length));
+  const ticks = '`'.repeat(Math.max(3, longest + 1));
+  return `${ticks}${lang}\n${code.replace(/^\n+|\s+$/g, '')}\n${ticks}`;
+}
+
+function wrap(marker: string, inner: string): string {
+  const m = /^(\s*)([\s\S]*?)(\s*)$/.exec(inner)!;
+  return m[2] ? `${m[1]}${marker}${m[2]}${marker}${m[3]}` : inner;
+}
+
+function inline(n: DomNode, baseUrl: string): string {
+  if (n.type === 'text') return n.data ?? '';
+  if (n.type !== 'tag') return '';
+  const kids = () => (n.children ?? []).map(c => inline(c, baseUrl)).join('');
+  switch (n.name) {
+    case 'br':
+      return BR;
+    case 'code':
+    case 'kbd':
+    case 'samp': {
+      const t = rawText(n).replace(/\s+/g, ' ');
+      if (!t.trim()) return t;
+      const tick = t.includes('`') ? '``' : '`';
+      return `${tick}${t}${tick}`;
+    }
+    case 'strong':
+    case 'b':
+      return wrap('**', kids());
+    case 'em':
+    case 'i':
+      return wrap('_', kids());
+    case 'a': {
+      const text = kids();
+      const href = n.attribs?.href ?? '';
+      // Heading permalinks ("#", "¶") are noise; other in-page anchors keep their text
+      if (href.startsWith('#') && /^[\s#¶§]*$/.test(text)) return '';
+      if (!text.trim() || !href || href.startsWith('#')) return text;
+      const abs = absolutize(href, baseUrl);
+      return abs ? `[${text.trim()}](${abs})` : text;
+    }
+    case 'img': {
+      const src = absolutize(n.attribs?.src ?? '', baseUrl);
+      const alt = (n.attribs?.alt ?? '').trim();
+      return src && alt ? `![${alt}](${src})` : alt;
+    }
+    default:
+      return isBlock(n) ? ` ${kids()} ` : kids();
+  }
+}
+
+function paragraph(text: string): string {
+  return text
+    .replace(/[ \t\r\n\f]+/g, ' ')
+    .split(BR)
+    .map(l => l.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function indentItem(body: string, marker: string): string {
+  const pad = ' '.repeat(marker.length);
+  return body
+    .split('\n')
+    .map((l, i) => (i === 0 ? marker + l : l ? pad + l : l))
+    .join('\n');
+}
+
+function list(n: DomNode, baseUrl: string): string {
+  const ordered = n.name === 'ol';
+  let index = Number(n.attribs?.start ?? 1) || 1;
+  const items: string[] = [];
+  for (const li of n.children ?? []) {
+    if (!isTag(li, 'li')) continue;
+    const body = blocks(li.children ?? [], baseUrl).join('\n');
+    const marker = ordered ? `${index++}. ` : '- ';
+    items.push(indentItem(body || '', marker));
+  }
+  return items.join('\n');
+}
+
+function table(n: DomNode, baseUrl: string): string {
+  const rows: string[][] = [];
+  const collect = (node: DomNode) => {
+    for (const c of node.children ?? []) {
+      if (isTag(c, 'tr')) {
+        const cells = (c.children ?? [])
+          .filter(cell => isTag(cell, 'td', 'th'))
+          .map(cell => paragraph(inline(cell, baseUrl)).replace(/\n/g, ' ').replace(/\|/g, '\\|'));
+        if (cells.length) rows.push(cells);
+      } else if (isTag(c, 'thead', 'tbody', 'tfoot')) {
+        collect(c);
+      }
+    }
+  };
+  collect(n);
+  if (!rows.length) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (r: string[]) => '| ' + Array.from({ length: width }, (_, i) => r[i] ?? '').join(' | ') + ' |';
+  return [line(rows[0]!), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function blocks(nodes: DomNode[], baseUrl: string): string[] {
+  const out: string[] = [];
+  let buf = '';
+  const flush = () => {
+    const p = paragraph(buf);
+    if (p) out.push(p);
+    buf = '';
+  };
+  for (const n of nodes) {
+    if (!isBlock(n)) {
+      buf += inline(n, baseUrl);
+      continue;
+    }
+    flush();
+    const name = n.name!;
+    const kids = n.children ?? [];
+    if (/^h[1-6]$/.test(name)) {
+      const text = paragraph(inline(n, baseUrl)).replace(/\n/g, ' ');
+      if (text) out.push(`${'#'.repeat(Number(name[1]))} ${text}`);
+    } else if (name === 'pre') {
+      const code = rawText(n);
+      if (code.trim()) out.push(fence(code, codeLanguage(n)));
+    } else if (name === 'ul' || name === 'ol') {
+      const l = list(n, baseUrl);
+      if (l) out.push(l);
+    } else if (name === 'table') {
+      const t = table(n, baseUrl);
+      if (t) out.push(t);
+    } else if (name === 'blockquote') {
+      const inner = blocks(kids, baseUrl).join('\n\n');
+      if (inner) out.push(inner.split('\n').map(l => (l ? `> ${l}` : '>')).join('\n'));
+    } else if (name === 'hr') {
+      out.push('---');
+    } else if (name === 'dt') {
+      const term = paragraph(inline(n, baseUrl));
+      if (term) out.push(`**${term}**`);
+    } else {
+      out.push(...blocks(kids, baseUrl));
+    }
+  }
+  flush();
+  return out;
+}
+
+export function htmlToMarkdown(
+  html: string,
+  baseUrl: string,
+  contentSelector?: string
+): { title: string; markdown: string } {
+  const $ = cheerio.load(html);
+  const title = ($('title').first().text() || '').trim();
+
+  let root = contentSelector ? $(contentSelector).first() : $([]);
+  let isFallback = false;
+  for (const sel of MAIN_SELECTORS) {
+    if (root.length) break;
+    root = $(sel).first();
+  }
+  if (!root.length) {
+    root = $('body').first();
+    isFallback = true;
+  }
+  if (!root.length) return { title, markdown: '' };
+
+  root.find(ALWAYS_NOISY.join(',')).remove();
+  if (isFallback) root.find(PAGE_CHROME.join(',')).remove();
+
+  const node = root.get(0) as unknown as DomNode;
+  const markdown = blocks(node.children ?? [], baseUrl).join('\n\n').trim();
+  return { title, markdown };
+}
@@ -0,0 +1,243 @@
+import { estimateTokens, RagChunk, TokenCounter } from './chunk';
+
+/**
+ * Markdown-aware chunking (the 'markdown' chunk strategy)
+ * - splits on the heading hierarchy first: a section that fits the target, subsections included,
+ *   is one chunk; a larger one is packed from its own blocks and whole subsections, and subsections
+ *   that don't fit either are chunked the same way on their own
+ * - code fences and tables are never split, even when one is larger than the target (only the
+ *   embedding model's hard cap, see capChunks, cuts one)
+ * - each chunk records its heading path ("Guide > Auth > OAuth") in meta.headingPath, and the path
+ *   is prepended to the chunk text so it is part of what gets embedded
+ */
+
+type BlockKind = 'heading' | 'paragraph' | 'fence' | 'table';
+type Block = { kind: BlockKind; text: string };
+
+type Section = {
+  level: number;
+  path: string[];
+  blocks: Block[];
+  children: Section[];
+};
+
+type ChunkSize = { target: number; overlap: number; count: TokenCounter };
+
+// A packable piece: a block (or part of a long paragraph), or a whole subsection that fits
+type Unit = { path: string[]; kind: BlockKind | 'section'; text: string };
+
+const ATX = /^ {0,3}(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const SETEXT = /^ {0,3}(=+|-+)[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const PATH_SEPARATOR = ' > ';
+
+function isTableStart(line: string, next: string | undefined): boolean {
+  return line.includes('|') && next !== undefined && next.includes('-') && TABLE_DELIMITER.test(next);
+}
+
+// Plain text of a heading for the breadcrumb: no emphasis markers, inline code ticks or link targets
+function headingTitle(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .trim();
+}
+
+function parseBlocks(text: string): Array<Block & { level?: number; title?: string }> {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Array<Block & { level?: number; title?: string }> = [];
+  let para: string[] = [];
+  const flush = () => {
+    if (para.length) blocks.push({ kind: 'paragraph', text: para.join('\n') });
+    para = [];
+  };
+
+  let i = 0;
+  // YAML front matter is metadata, not content
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, n) => n > 0 && /^(---|\.\.\.)\s*$/.test(l));
+    if (close > 0) i = close + 1;
+  }
+
+  for (; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flush();
+      const marker = fence[1];
+      const body = [line];
+      // An unclosed fence runs to the end of the file, as in CommonMark
+      while (++i < lines.length) {
+        body.push(lines[i].trimEnd());
+        const close = FENCE.exec(lines[i]);
+        if (close && close[1][0] === marker[0] && close[1].length >= marker.length && !lines[i].trim().slice(close[1].length).trim()) break;
+      }
+      blocks.push({ kind: 'fence', text: body.join('\n') });
+      continue;
+    }
+    if (isTableStart(line, lines[i + 1])) {
+      flush();
+      const rows = [line];
+      while (i + 1 < lines.length && lines[i + 1].trim() && lines[i + 1].includes('|')) rows.push(lines[++i].trimEnd());
+      blocks.push({ kind: 'table', text: rows.join('\n') });
+      continue;
+    }
+    const atx = ATX.exec(line);
+    if (atx) {
+      flush();
+      blocks.push({ kind: 'heading', text: line.trim(), level: atx[1].length, title: headingTitle(atx[2]) });
+      continue;
+    }
+    const setext = SETEXT.exec(line);
+    if (setext && para.length) {
+      const title = para.join(' ').trim();
+      const level = setext[1][0] === '=' ? 1 : 2;
+      para = [];
+      blocks.push({ kind: 'heading', text: `${'#'.repeat(level)} ${title}`, level, title: headingTitle(title) });
+      continue;
+    }
+    if (!line.trim()) flush();
+    else para.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+function buildOutline(text: string): Section {
+  const root: Section = { level: 0, path: [], blocks: [], children: [] };
+  const stack = [root];
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'heading' && block.level) {
+      while (stack.length > 1 && stack[stack.length - 1].level >= block.level) stack.pop();
+      const parent = stack[stack.length - 1];
+      const section: Section = {
+        level: block.level,
+        path: [...parent.path, block.title || block.text],
+        blocks: [{ kind: 'heading', text: block.text }],
+        children: []
+      };
+      parent.children.push(section);
+      stack.push(section);
+    } else {
+      stack[stack.length - 1].blocks.push({ kind: block.kind, text: block.text });
+    }
+  }
+  return root;
+}
+
+function renderSection(section: Section): string {
+  return [...section.blocks.map(b => b.text), ...section.children.map(renderSection)].filter(Boolean).join('\n\n');
+}
+
+function withPath(path: string[], body: string): string {
+  return path.length ? `${path.join(PATH_SEPARATOR)}\n\n${body}` : body;
+}
+
+function commonPath(units: Unit[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; units.every(u => i < u.path.length && u.path[i] === units[0].path[i]); i++) out.push(units[0].path[i]);
+  return out;
+}
+
+function render(units: Unit[]): string {
+  return withPath(commonPath(units), units.map(u => u.text).join('\n\n'));
+}
+
+/**
+ * A paragraph over the target is cut at line breaks (list items), then at sentence ends.
+ * Fences and tables stay whole.
+ */
+function blockUnits(block: Block, path: string[], size: ChunkSize): Unit[] {
+  const budget = size.target - size.count(withPath(path, ''));
+  if (block.kind !== 'paragraph' || size.count(block.text) <= budget) return [{ path, kind: block.kind, text: block.text }];
+  const segments: Array<{ text: string; sep: string }> = [];
+  for (const line of block.text.split('\n')) {
+    if (size.count(line) <= budget) segments.push({ text: line, sep: '\n' });
+    else for (const sentence of line.split(/(?<=[.!?])\s+/)) segments.push({ text: sentence, sep: ' ' });
+  }
+  const units: Unit[] = [];
+  let buf = '';
+  for (const s of segments) {
+    const next = buf ? `${buf}${s.sep}${s.text}` : s.text;
+    if (buf && size.count(next) > budget) {
+      units.push({ path, kind: 'paragraph', text: buf });
+      buf = s.text;
+    } else {
+      buf = next;
+    }
+  }
+  if (buf) units.push({ path, kind: 'paragraph', text: buf });
+  return units;
+}
+
+/**
+ * Greedy packing. When a chunk fills up mid-section, trailing paragraphs of that section (up to
+ * size.overlap tokens) are repeated at the start of the next chunk.
+ */
+function packUnits(units: Unit[], size: ChunkSize, out: Array<{ path: string[]; body: string }>) {
+  let current: Unit[] = [];
+  const emit = (us: Unit[]) => {
+    const path = commonPath(us);
+    out.push({ path, body: us.map(u => u.text).join('\n\n') });
+  };
+  for (const unit of units) {
+    // A heading with nothing after it yet waits for its content, even if that doesn't fit
+    const headingsOnly = current.every(u => u.kind === 'heading');
+    if (current.length && !headingsOnly && size.count(render([...current, unit])) > size.target) {
+      emit(current);
+      const carry: Unit[] = [];
+      let carried = 0;
+      for (let k = current.length - 1; k >= 0; k--) {
+        const u = current[k];
+        if (u.kind !== 'paragraph' || u.path.join('\n') !== unit.path.join('\n')) break;
+        carried += size.count(u.text);
+        if (carried > size.overlap || size.count(render([u, ...carry, unit])) > size.target) break;
+        carry.unshift(u);
+      }
+      current = carry;
+    }
+    current.push(unit);
+  }
+  if (current.length) emit(current);
+}
+
+function chunkSection(section: Section, size: ChunkSize, out: Array<{ path: string[]; body: string }>) {
+  const whole = renderSection(section);
+  if (!whole) return;
+  if (size.count(withPath(section.path, whole)) <= size.target) {
+    out.push({ path: section.path, body: whole });
+    return;
+  }
+  let pending = section.blocks.flatMap(b => blockUnits(b, section.path, size));
+  for (const child of section.children) {
+    const text = renderSection(child);
+    if (size.count(withPath(child.path, text)) <= size.target) {
+      pending.push({ path: child.path, kind: 'section', text });
+    } else {
+      packUnits(pending, size, out);
+      pending = [];
+      chunkSection(child, size, out);
+    }
+  }
+  packUnits(pending, size, out);
+}
+
+export function chunkMarkdownToRag(
+  rawText: string,
+  name: string,
+  url: string,
+  targetTokens: number = 800,
+  overlapTokens: number = 120,
+  countTokens: TokenCounter = estimateTokens
+): RagChunk[] {
+  if (!rawText.trim()) return [];
+  const pieces: Array<{ path: string[]; body: string }> = [];
+  chunkSection(buildOutline(rawText), { target: targetTokens, overlap: overlapTokens, count: countTokens }, pieces);
+  return pieces.map((p, ord) => ({
+    id: `${name}:${ord}`,
+    ord,
+    text: withPath(p.path, p.body),
+    meta: { name, url, ...(p.path.length ? { headingPath: p.path.join(PATH_SEPARATOR) } : {}) }
+  }));
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto';
+import { CreateJobInput, FileRec, Job } from '../types';
+import { appendLog, createJob, updateJob } from './db';
+import { enqueue } from './queue';
+import { scrape } from './scraper';
+import { buildRag } from './rag';
+import { resolveEmbeddingConfig } from './embeddings';
+import { diffFiles, summarizeDiff } from './refresh';
+
+export type RefreshRun = {
+  previousFiles: FileRec[];
+  // A refresh after a failed run can't trust the collection's contents
+  reembedAll: boolean;
+};
+
+/**
+ * Background pipeline shared by new jobs and refreshes: scrape (0..70%), then RAG (70..99%).
+ * On refresh, only new/changed files are re-embedded and vectors of removed files are dropped.
+ */
+export async function runJob(id: string, request: CreateJobInput, createdAt: string, refresh?: RefreshRun) {
+  const { type, format } = request;
+  try {
+    updateJob(id, { status: 'running', progress: 0 });
+    appendLog(id, 'info', refresh ? 'Refresh started' : 'Job started');
+    appendLog(id, 'info', 'Starting scrape…');
+
+    // Scrape via unified pipeline (persists files and writes raw copies)
+    const files = await scrape(
+      { ...request, id, status: 'running', createdAt, ...(refresh ? { previousFiles: refresh.previousFiles } : {}) } as Job,
+      (level, message) => appendLog(id, level, message),
+      (p) => {
+        const scaled = Math.max(0, Math.min(70, Math.round(p)));
+        updateJob(id, { progress: scaled });
+      }
+    );
+    appendLog(id, 'info', `Collected ${files.length} files`);
+    updateJob(id, { progress: 70 });
+
+    let incremental: { reembed: Set<string>; stale: string[] } | undefined;
+    if (refresh) {
+      const diff = diffFiles(refresh.previousFiles, files);
+      appendLog(id, 'info', `Refresh summary: ${summarizeDiff(diff)}`);
+      if (refresh.reembedAll) appendLog(id, 'info', 'Previous run did not complete; re-embedding all files');
+      incremental = {
+        reembed: new Set((refresh.reembedAll ? files : [...diff.added, ...diff.changed]).map(f => f.url)),
+        stale: (refresh.reembedAll ? refresh.previousFiles : [...diff.changed, ...diff.removed]).map(f => f.url)
+      };
+    }
+
+    // Build RAG artifacts (stubbed)
+    appendLog(id, 'info', 'Building RAG…');
+    // The request's options (chunk strategy and the like) apply to the RAG build too
+    const job: Job = {
+      ...request,
+      id,
+      type,
+      status: 'running',
+      createdAt,
+      format,
+      progress: 70,
+      files,
+    };
+    await buildRag(
+      job,
+      files,
+      (level, message) => appendLog(id, level, message),
+      (p) => {
+        const clamped = Math.max(70, Math.min(99, Math.round(p)));
+        updateJob(id, { progress: clamped });
+      },
+      incremental
+    );
+    appendLog(id, 'info', 'RAG build completed');
+
+    // Finalize
+    updateJob(id, { status: 'completed', progress: 100 });
+    appendLog(id, 'info', 'Job completed');
+  } catch (err: any) {
+    appendLog(id, 'error', err?.message ?? 'Unknown error');
+    updateJob(id, { status: 'failed', error: err?.message ?? 'Unknown error' });
+  }
+}
+
+/**
+ * Create a job row for `request` and queue its first run. Used by POST /jobs and the scheduler.
+ */
+export function startJob(input: CreateJobInput, opts: { scheduleId?: string } = {}): string {
+  const { provider, model } = resolveEmbeddingConfig(input);
+  const request: CreateJobInput = { ...input, embeddingProvider: provider, embeddingModel: model };
+  const { type, format } = request;
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+
+  createJob({ id, type, format, createdAt, request, scheduleId: opts.scheduleId });
+  try {
+    appendLog(id, 'info', `Job created: ${type}, ${format}${opts.scheduleId ? ` (schedule ${opts.scheduleId})` : ''}`);
+
+    // Enqueue background work
+    enqueue(id, () => runJob(id, request, createdAt));
+    return id;
+  } catch (err: any) {
+    appendLog(id, 'error', err?.message ?? 'Unknown error on create');
+    updateJob(id, { status: 'failed', error: err?.message ?? 'Unknown error on create' });
+    throw err;
+  }
+}
@@ -1,8 +1,12 @@
 import { fetch } from 'undici';
+import type { Distance, VectorHit, VectorPoint } from './vectorStore';
+
+/**
+ * Qdrant backend of the vector store (VECTOR_STORE=qdrant), over its HTTP API
+ */
 
 const QDRANT_URL = process.env.QDRANT_URL || 'http://localhost:6333';
 const QDRANT_API_KEY = process.env.QDRANT_API_KEY || '';
-const RAG_COLLECTION_PREFIX = process.env.RAG_COLLECTION_PREFIX || 'job_';
 
 function headers() {
   const h: Record<string, string> = { 'content-type': 'application/json' };
@@ -10,20 +14,26 @@ function headers() {
   return h;
 }
 
-export function collectionName(jobId: string): string {
-  return `${RAG_COLLECTION_PREFIX}${jobId}`;
-}
-
-export async function ensureCollection(name: string, size: number, distance: 'Cosine' | 'Euclid' | 'Dot' = 'Cosine'): Promise<void> {
+export async function getCollectionVectors(name: string): Promise<{ size: number; distance: string } | null> {
   const info = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}`, {
     method: 'GET',
     headers: headers()
   });
-  if (info.status === 200) return;
-  if (info.status !== 404) {
+  if (info.status === 404) return null;
+  if (info.status !== 200) {
     const body = await safeText(info);
     throw new Error(`Qdrant GET collection failed ${info.status}: ${body}`);
   }
+  const json: any = await info.json();
+  const vectors = json?.result?.config?.params?.vectors;
+  if (typeof vectors?.size !== 'number') {
+    // Named vectors (a map of them) aren't something this app creates
+    throw new Error(`Qdrant collection ${name} doesn't have a single unnamed vector`);
+  }
+  return { size: vectors.size, distance: vectors.distance };
+}
+
+export async function createCollection(name: string, size: number, distance: Distance): Promise<void> {
   const res = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}`, {
     method: 'PUT',
     headers: headers(),
@@ -33,15 +43,16 @@ export async function ensureCollection(name: string, size: number, distance: 'Co
   });
   if (!res.ok) {
     const body = await safeText(res);
-    throw new Error(`Qdrant ensureCollection failed ${res.status}: ${body}`);
+    throw new Error(`Qdrant createCollection failed ${res.status}: ${body}`);
   }
 }
 
 export async function upsertPoints(
   name: string,
-  points: Array<{ id: string; vector: number[]; payload: any }>
+  points: VectorPoint[]
 ): Promise<void> {
-  const res = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}/points`, {
+  // Wait for the write so a finished job is searchable right away
+  const res = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}/points?wait=true`, {
     method: 'PUT',
     headers: headers(),
     body: JSON.stringify({ points })
@@ -52,26 +63,41 @@ export async function upsertPoints(
   }
 }
 
+export async function deletePointsByUrl(name: string, urls: string[]): Promise<void> {
+  const res = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}/points/delete?wait=true`, {
+    method: 'POST',
+    headers: headers(),
+    body: JSON.stringify({
+      filter: { should: urls.map(url => ({ key: 'url', match: { value: url } })) }
+    })
+  });
+  if (!res.ok) {
+    const body = await safeText(res);
+    throw new Error(`Qdrant deletePoints failed ${res.status}: ${body}`);
+  }
+}
+
 export async function search(
   name: string,
   vector: number[],
   limit: number = 8,
   score_threshold?: number
-): Promise<any[]> {
+): Promise<VectorHit[]> {
   const res = await fetch(`${QDRANT_URL}/collections/${encodeURIComponent(name)}/points/search`, {
     method: 'POST',
     headers: headers(),
     body: JSON.stringify({
       vector,
       limit,
-      ...(score_threshold ? { score_threshold } : {})
+      // 0 is a threshold too (it drops opposite vectors under Cosine); the SQLite store applies it alike
+      ...(score_threshold !== undefined ? { score_threshold } : {})
     })
   });
   if (!res.ok) {
     const body = await safeText(res);
     throw new Error(`Qdrant search failed ${res.status}: ${body}`);
   }
-  const json = await res.json();
+  const json: any = await res.json();
   return json?.result ?? [];
 }
 
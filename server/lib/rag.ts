@@ -1,39 +1,60 @@
 import path from 'path';
+import { createHash } from 'crypto';
 import { promises as fs, existsSync, mkdirSync, readdirSync } from 'fs';
-import { fetch } from 'undici';
-import { chunkTextToRag, RagChunk } from './chunk';
-import { ensureCollection, upsertPoints, collectionName } from './qdrant';
+import PQueue from 'p-queue';
+import { capChunks, chunkPagesToRag, chunkTextToRag, RagChunk } from './chunk';
+import { chunkCodeToRag } from './codeChunk';
+import { chunkMarkdownToRag } from './markdownChunk';
+import { deleteChunkText, getCollectionMeta, saveChunkText, saveCollectionMeta, updateJob } from './db';
+import { EmbeddingProvider, embeddingProvider, probeDimension, resolveEmbeddingConfig } from './embeddings';
+import { lineRangeUrl } from './remotes';
+import { tokenCounter } from './tokenizer';
+import { ensureCollection, upsertPoints, collectionName, deletePointsByUrl, Distance } from './vectorStore';
 import { FileRec, Job } from '../types';
 
-const OLLAMA_URL = process.env.OLLAMA_URL || process.env.OLLAMA_HOST || 'http://localhost:11434';
-const OLLAMA_EMBED_MODEL = process.env.OLLAMA_EMBED_MODEL || 'nomic-embed-text';
-const RAG_DIM = Number(process.env.RAG_DIM || 384);
+const RAG_DISTANCE: Distance = 'Cosine';
 const RAG_COLLECTION_PREFIX = process.env.RAG_COLLECTION_PREFIX || 'job_';
 
+// Our tokenizer isn't the model's, so chunks are capped a little below its limit
+const EMBED_TOKEN_HEADROOM = 0.9;
+// Embedding batches in flight per job; batch size is the provider's unless EMBED_BATCH_SIZE is set
+const EMBED_CONCURRENCY = Math.max(1, Number(process.env.EMBED_CONCURRENCY || 2));
+const EMBED_BATCH_SIZE = Number(process.env.EMBED_BATCH_SIZE) || 0;
+const RATE_LOG_INTERVAL_MS = 10000;
+
 type LogFn = (level: 'info' | 'error' | 'debug', message: string) => void;
 type ReportProgressFn = (progress70to99: number) => void;
 
+/**
+ * Refresh runs embed only new/changed files; `stale` URLs have their old points deleted first.
+ * Unchanged files are still chunked so the exports stay complete.
+ */
+type IncrementalOptions = { reembed: Set<string>; stale: string[] };
+
+type PendingPoint = { id: string; text: string; payload: Record<string, unknown> };
+
 function ensureDir(p: string) {
   if (!existsSync(p)) mkdirSync(p, { recursive: true });
 }
 
-export async function embed(text: string): Promise<number[]> {
-  const res = await fetch(`${OLLAMA_URL}/api/embeddings`, {
-    method: 'POST',
-    headers: { 'content-type': 'application/json' },
-    body: JSON.stringify({
-      model: OLLAMA_EMBED_MODEL,
-      prompt: text
-    })
-  });
-  if (!res.ok) {
-    const body = await res.text().catch(() => '<no-body>');
-    throw new Error(`Ollama embed failed ${res.status}: ${body}`);
-  }
-  const json: any = await res.json();
-  const vec: number[] = json?.embedding || json?.data?.[0]?.embedding;
-  if (!Array.isArray(vec)) throw new Error('Invalid embedding response');
-  return vec;
+// Namespace of chunk point ids; changing it changes every id
+const POINT_ID_NAMESPACE = '8808091c-c0f2-4c01-abf0-45c3b173b42d';
+
+function uuidV5(name: string, namespace: string): string {
+  const hash = createHash('sha1').update(Buffer.from(namespace.replace(/-/g, ''), 'hex')).update(name).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Point id of a chunk: a UUIDv5 of job, file URL and chunk index. Deterministic, so re-running or
+ * refreshing a job overwrites its points instead of adding new ones; the JSONL export carries the
+ * same id so downstream systems can join on it.
+ */
+function chunkPointId(jobId: string, url: string, ord: number): string {
+  return uuidV5(`${jobId}\n${url}\n${ord}`, POINT_ID_NAMESPACE);
 }
 
 function batch<T>(arr: T[], size = 64): T[][] {
@@ -46,11 +67,32 @@ export async function buildRag(
   job: Job,
   files: FileRec[],
   log?: LogFn,
-  reportProgress?: ReportProgressFn
+  reportProgress?: ReportProgressFn,
+  incremental?: IncrementalOptions
 ): Promise<void> {
   log?.('info', `[RAG] Starting RAG for ${job.id}`);
   const cname = collectionName(job.id);
-  await ensureCollection(cname, RAG_DIM, 'Cosine');
+  const provider = embeddingProvider(resolveEmbeddingConfig(job));
+  const dimension = await probeDimension(provider);
+  log?.('info', `[RAG] Embedding with ${provider.provider} model ${provider.model} (${dimension} dimensions)`);
+  await prepareCollection(cname, provider, dimension);
+  // Search embeds queries with whatever the job was built with
+  updateJob(job.id, { embedding: { provider: provider.provider, model: provider.model, dimension } });
+
+  const countTokens = await tokenCounter(job.tokenizer ?? 'cl100k');
+  const maxTokens = Math.floor(provider.maxInputTokens * EMBED_TOKEN_HEADROOM);
+  const chunkSize = Math.min(job.chunkSize ?? 800, maxTokens);
+  const chunkOverlap = Math.min(job.chunkOverlap ?? 120, Math.floor(chunkSize / 2));
+  if (chunkSize < (job.chunkSize ?? 800)) {
+    log?.('info', `[RAG] chunkSize ${job.chunkSize} exceeds what ${provider.model} accepts; using ${chunkSize} tokens`);
+  }
+  if (incremental) {
+    for (const b of batch(incremental.stale, 100)) {
+      await deletePointsByUrl(cname, b);
+      deleteChunkText(cname, b);
+    }
+    log?.('info', `[RAG] Removed vectors for ${incremental.stale.length} changed or deleted files`);
+  }
 
   const cacheRoot = path.join(process.cwd(), 'server', '.cache', 'jobs', job.id);
   const exportDir = path.join(cacheRoot, 'exports');
@@ -63,28 +105,62 @@ export async function buildRag(
 
   try {
     let chunkCount = 0;
-    let processed = 0;
-    // Chunk each file
+    // Chunk and export every file first; what needs embedding is collected for the batches below
+    const pending: PendingPoint[] = [];
     for (const f of files) {
-      const chunks: RagChunk[] = chunkTextToRag(f.text || '', f.name, f.url, 800, 120);
-      // Prepare embeddings and points
-      const points: { id: string; vector: number[]; payload: any }[] = [];
+      const chunks: RagChunk[] = capChunks(
+        f.pages?.length
+          ? chunkPagesToRag(f.text || '', f.pages, f.name, f.url, chunkSize, chunkOverlap, countTokens)
+          : f.type === 'code'
+            ? chunkCodeToRag(f.text || '', f.name, f.url, chunkSize, countTokens)
+            : job.chunkStrategy === 'markdown'
+              ? chunkMarkdownToRag(f.text || '', f.name, f.url, chunkSize, chunkOverlap, countTokens)
+              : chunkTextToRag(f.text || '', f.name, f.url, chunkSize, chunkOverlap, countTokens),
+        maxTokens,
+        countTokens
+      );
+      const needsEmbedding = !incremental || incremental.reembed.has(f.url);
       for (const c of chunks) {
-        const vector = await embed(c.text);
-        points.push({
-          id: `${job.id}:${c.ord}`,
-          vector,
-          payload: {
-            jobId: job.id,
+        const code = c.meta.startLine
+          ? {
+              ...(c.meta.symbol ? { symbol: c.meta.symbol } : {}),
+              ...(c.meta.symbolKind ? { symbolKind: c.meta.symbolKind } : {}),
+              startLine: c.meta.startLine,
+              endLine: c.meta.endLine,
+              lineUrl: lineRangeUrl(c.meta.url, c.meta.startLine, c.meta.endLine ?? c.meta.startLine)
+            }
+          : {};
+        const id = chunkPointId(job.id, c.meta.url, c.ord);
+        if (needsEmbedding) {
+          pending.push({
+            id,
+            text: c.text,
+            payload: {
+              jobId: job.id,
+              url: c.meta.url,
+              name: c.meta.name,
+              ord: c.ord,
+              ...(c.meta.page ? { page: c.meta.page } : {}),
+              ...(c.meta.headingPath ? { headingPath: c.meta.headingPath } : {}),
+              ...(f.commit ? { commit: f.commit } : {}),
+              ...code,
+              text: c.text
+            }
+          });
+        }
+        // Export JSONL line
+        await jsonlHandle.writeFile(
+          JSON.stringify({
+            id,
+            text: c.text,
             url: c.meta.url,
             name: c.meta.name,
             ord: c.ord,
-            text: c.text
-          }
-        });
-        // Export JSONL line
-        await jsonlHandle.writeFile(
-          JSON.stringify({ id: `${job.id}:${c.ord}`, text: c.text, url: c.meta.url, name: c.meta.name, ord: c.ord }) + '\n',
+            ...(c.meta.page ? { page: c.meta.page } : {}),
+            ...(c.meta.headingPath ? { headingPath: c.meta.headingPath } : {}),
+            ...(f.commit ? { commit: f.commit } : {}),
+            ...code
+          }) + '\n',
           'utf-8'
         );
         chunkCount++;
@@ -94,24 +170,97 @@ export async function buildRag(
           const mdFile = path.join(mdDir, mdName);
           await fs.writeFile(mdFile, c.text, 'utf-8').catch(() => {});
         }
-        // Progress 70..99
-        processed++;
-        const prog = 70 + Math.min(29, Math.floor((processed / Math.max(1, files.length)) * 29));
-        reportProgress?.(prog);
       }
-      // Upsert in batches
-      for (const b of batch(points, 64)) {
-        await upsertPoints(cname, b);
-      }
-      log?.('info', `[RAG] Processed file ${f.name}, chunks=${chunks.length}`);
+      log?.('info', `[RAG] Processed file ${f.name}, chunks=${chunks.length}${needsEmbedding ? '' : ' (unchanged, not re-embedded)'}`);
     }
     log?.('info', `[RAG] Total chunks: ${chunkCount}`);
+    await embedPoints(cname, provider, dimension, pending, log, reportProgress);
+    if (incremental) log?.('info', `[RAG] Embedded ${pending.length} chunks from new or changed files`);
   } finally {
     await jsonlHandle.close();
   }
   log?.('info', `[RAG] Exported JSONL at ${jsonlPath}`);
 }
 
+/**
+ * Create the collection for `provider`'s vectors, or check the existing one can take them, and
+ * record what it holds for search. A collection built with another model is refused even when the
+ * vector size happens to match.
+ */
+async function prepareCollection(cname: string, provider: EmbeddingProvider, dimension: number): Promise<void> {
+  const meta = getCollectionMeta(cname) as { provider: string; model: string } | undefined;
+  const created = await ensureCollection(cname, dimension, RAG_DISTANCE);
+  if (!created && meta && (meta.provider !== provider.provider || meta.model !== provider.model)) {
+    throw new Error(
+      `Collection ${cname} holds ${meta.provider} ${meta.model} vectors and can't take vectors from ${provider.provider} ${provider.model}`
+    );
+  }
+  if (created || !meta) {
+    saveCollectionMeta({
+      name: cname,
+      provider: provider.provider,
+      model: provider.model,
+      dimension,
+      distance: RAG_DISTANCE,
+      now: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Embed and upsert `pending` in batches, a bounded number in flight, and index each batch's text for
+ * keyword search. Progress (70..99) follows the chunks embedded; throughput is logged every few
+ * seconds and at the end. The first failed batch (after the provider's own retries) fails the build
+ * and cancels the batches not yet started.
+ */
+async function embedPoints(
+  cname: string,
+  provider: EmbeddingProvider,
+  dimension: number,
+  pending: PendingPoint[],
+  log?: LogFn,
+  reportProgress?: ReportProgressFn
+): Promise<void> {
+  if (!pending.length) {
+    reportProgress?.(99);
+    return;
+  }
+  const batchSize = EMBED_BATCH_SIZE || provider.maxBatchSize;
+  const queue = new PQueue({ concurrency: EMBED_CONCURRENCY });
+  const started = Date.now();
+  let lastRateLog = started;
+  let embedded = 0;
+  const rate = () => (embedded / Math.max(0.001, (Date.now() - started) / 1000)).toFixed(1);
+
+  const tasks = batch(pending, batchSize).map(b =>
+    queue.add(async () => {
+      const vectors = await provider.embed(b.map(p => p.text));
+      if (vectors.length !== b.length) {
+        throw new Error(`${provider.provider} returned ${vectors.length} embeddings for ${b.length} inputs`);
+      }
+      const odd = vectors.find(v => v.length !== dimension);
+      if (odd) throw new Error(`${provider.model} returned a ${odd.length}-dimension vector, expected ${dimension}`);
+      await upsertPoints(cname, b.map((p, i) => ({ id: p.id, vector: vectors[i], payload: p.payload })));
+      saveChunkText(cname, b.map(p => ({ pointId: p.id, url: p.payload.url as string, payload: p.payload, text: p.text })));
+      embedded += b.length;
+      reportProgress?.(70 + Math.min(29, Math.floor((embedded / pending.length) * 29)));
+      if (Date.now() - lastRateLog >= RATE_LOG_INTERVAL_MS) {
+        lastRateLog = Date.now();
+        log?.('info', `[RAG] Embedded ${embedded}/${pending.length} chunks (${rate()} chunks/s)`);
+      }
+    })
+  );
+  try {
+    await Promise.all(tasks);
+  } catch (e) {
+    queue.clear();
+    await queue.onIdle();
+    throw e;
+  }
+  const seconds = ((Date.now() - started) / 1000).toFixed(1);
+  log?.('info', `[RAG] Embedded ${embedded} chunks in ${seconds}s (${rate()} chunks/s, batches of ${batchSize}, ${EMBED_CONCURRENCY} in flight)`);
+}
+
 /**
  * Helper to list downloadable export files for a job.
  * Returns absolute file paths and display names.
@@ -0,0 +1,33 @@
+import { FileRec } from '../types';
+
+/**
+ * Compare a refresh run's files with the previous run's, by URL and content hash.
+ * Files without a stored hash (older jobs) count as changed.
+ */
+
+export type FileDiff = {
+  added: FileRec[];
+  changed: FileRec[];
+  unchanged: FileRec[];
+  removed: FileRec[];
+};
+
+export function diffFiles(previous: FileRec[], next: FileRec[]): FileDiff {
+  const prevByUrl = new Map(previous.map(f => [f.url, f] as const));
+  const nextUrls = new Set(next.map(f => f.url));
+  const diff: FileDiff = { added: [], changed: [], unchanged: [], removed: [] };
+  for (const f of next) {
+    const prev = prevByUrl.get(f.url);
+    if (!prev) diff.added.push(f);
+    else if (prev.contentHash && prev.contentHash === f.contentHash) diff.unchanged.push(f);
+    else diff.changed.push(f);
+  }
+  for (const f of previous) {
+    if (!nextUrls.has(f.url)) diff.removed.push(f);
+  }
+  return diff;
+}
+
+export function summarizeDiff(diff: FileDiff): string {
+  return `added ${diff.added.length}, changed ${diff.changed.length}, unchanged ${diff.unchanged.length}, removed ${diff.removed.length}`;
+}
@@ -0,0 +1,224 @@
+import path from 'path';
+
+/**
+ * Git remotes for repo jobs
+ * - parseRepoUrl accepts repository web URLs or clone URLs (with or without .git, GitLab subgroups)
+ *   and works out the hosting provider, the URL to clone and the web base for browse links
+ * - provider comes from the hostname (github.com, gitlab.*, bitbucket.org, gitea.* / codeberg.org),
+ *   or from GIT_PROVIDER_HOSTS for self-hosted instances: "git.corp.example=gitlab,code.example=gitea"
+ * - anything else is a 'generic' remote, cloned exactly as given
+ * - web URLs pointing into the tree (/tree/<ref>/<dir>, /-/tree/..., /src/branch/...) carry a ref and
+ *   subdirectory; repoTarget combines them with the job's explicit ref / subdir fields
+ * - file:// remotes (local repositories, bare or not) are only accepted with GIT_ALLOW_FILE_REMOTES=1
+ */
+
+export type RepoProvider = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'generic';
+
+export type RepoRemote = {
+  provider: RepoProvider;
+  cloneUrl: string;
+  // Web UI base for browse links, e.g. https://gitlab.example.com/group/sub/repo
+  webUrl: string;
+  // Repository path on its host, e.g. group/sub/repo
+  path: string;
+  // "<ref>/<dir>" segments from a tree URL, and the ref kind when the URL says (Gitea)
+  treePath?: string[];
+  treeRefKind?: RepoRef['kind'];
+};
+
+export type RepoRef = { kind: 'branch' | 'tag' | 'commit'; name: string };
+
+export type RepoTarget = { ref?: string; refKind?: RepoRef['kind']; subdir?: string };
+
+const PROVIDERS: RepoProvider[] = ['github', 'gitlab', 'bitbucket', 'gitea', 'generic'];
+const ALLOW_FILE_REMOTES = process.env.GIT_ALLOW_FILE_REMOTES === '1';
+
+function configuredHosts(): Map<string, RepoProvider> {
+  const out = new Map<string, RepoProvider>();
+  for (const entry of (process.env.GIT_PROVIDER_HOSTS || '').split(',')) {
+    const [host, provider] = entry.split('=').map(s => s?.trim().toLowerCase());
+    if (host && PROVIDERS.includes(provider as RepoProvider)) out.set(host, provider as RepoProvider);
+  }
+  return out;
+}
+
+const PROVIDER_HOSTS = configuredHosts();
+
+export function detectProvider(hostname: string): RepoProvider {
+  const host = hostname.toLowerCase();
+  const configured = PROVIDER_HOSTS.get(host);
+  if (configured) return configured;
+  if (host === 'github.com' || host === 'www.github.com') return 'github';
+  if (host === 'bitbucket.org') return 'bitbucket';
+  if (host === 'codeberg.org' || /(^|\.)(gitea|forgejo)\./.test(host)) return 'gitea';
+  if (/(^|\.)gitlab\./.test(host)) return 'gitlab';
+  return 'generic';
+}
+
+// Repo path from a web or clone URL path: drops ".git" and trailing UI segments (/tree/..., /-/blob/...)
+function repoPath(provider: RepoProvider, segments: string[]): string[] {
+  if (provider === 'generic') return segments;
+  if (provider === 'gitlab') {
+    const ui = segments.indexOf('-');
+    return ui >= 0 ? segments.slice(0, ui) : segments;
+  }
+  return segments.slice(0, 2);
+}
+
+// Ref and directory segments from the UI part of a web URL; blob URLs select the file's directory
+function treeSegments(provider: RepoProvider, ui: string[]): { path: string[]; kind?: RepoRef['kind'] } | null {
+  const [marker, ...rest] = provider === 'gitlab' && ui[0] === '-' ? ui.slice(1) : ui;
+  if (!rest.length) return null;
+  switch (provider) {
+    case 'github':
+    case 'gitlab':
+      if (marker === 'tree') return { path: rest };
+      if (marker === 'blob') return { path: rest.slice(0, -1) };
+      if (marker === 'commit') return { path: rest.slice(0, 1), kind: 'commit' };
+      return null;
+    case 'bitbucket':
+      return marker === 'src' ? { path: rest } : null;
+    case 'gitea': {
+      const kind = rest[0] as RepoRef['kind'];
+      if (marker !== 'src' || !['branch', 'tag', 'commit'].includes(kind)) return null;
+      return { path: rest.slice(1), kind };
+    }
+    default:
+      return null;
+  }
+}
+
+function normalizeSubdir(dir: string): string | undefined {
+  if (dir.split(/[\\/]/).includes('..')) throw new Error(`Invalid subdirectory: ${dir}`);
+  return path.posix.normalize(`/${dir}`).replace(/^\/+|\/+$/g, '') || undefined;
+}
+
+const SHA = /^[0-9a-f]{7,40}$/i;
+
+export function looksLikeSha(ref: string): boolean {
+  return SHA.test(ref);
+}
+
+/**
+ * Ref and subdirectory to check out. Explicit fields win; a tree URL's first segment is taken as
+ * the ref, so refs containing "/" need the explicit field (the rest of the URL path then still
+ * counts as the subdirectory when it starts with that ref).
+ */
+export function repoTarget(remote: RepoRemote, explicit: { ref?: string; subdir?: string } = {}): RepoTarget {
+  const tree = remote.treePath ?? [];
+  let ref = explicit.ref;
+  let dir: string[] = [];
+  if (ref) {
+    const refSegments = ref.split('/');
+    if (refSegments.every((seg, i) => tree[i] === seg)) dir = tree.slice(refSegments.length);
+  } else if (tree.length) {
+    ref = tree[0];
+    dir = tree.slice(1);
+  }
+  const urlKind = ref && ref === tree[0] ? remote.treeRefKind : undefined;
+  const subdir = normalizeSubdir(explicit.subdir ?? dir.join('/'));
+  return {
+    ...(ref ? { ref } : {}),
+    ...(urlKind ? { refKind: urlKind } : {}),
+    ...(subdir ? { subdir } : {})
+  };
+}
+
+export function parseRepoUrl(input: string): RepoRemote {
+  let u: URL;
+  try {
+    u = new URL(input.trim());
+  } catch {
+    throw new Error(`Invalid repo URL: ${input}`);
+  }
+  if (u.protocol === 'file:') {
+    if (!ALLOW_FILE_REMOTES) throw new Error('file:// remotes are disabled (set GIT_ALLOW_FILE_REMOTES=1)');
+    const local = u.pathname.replace(/\/+$/, '');
+    return { provider: 'generic', cloneUrl: `file://${local}`, webUrl: `file://${local}`, path: local };
+  }
+  if (u.protocol !== 'https:' && u.protocol !== 'http:') {
+    throw new Error(`Unsupported repo URL protocol ${u.protocol} (use an HTTPS clone URL)`);
+  }
+  if (u.username || u.password) throw new Error('Repo URLs must not contain credentials');
+
+  const provider = detectProvider(u.hostname);
+  const segments = u.pathname.split('/').filter(Boolean);
+  const last = segments.length - 1;
+  if (last >= 0) segments[last] = segments[last]!.replace(/\.git$/i, '');
+  const parts = repoPath(provider, segments);
+  if (provider !== 'generic' && parts.length < 2) throw new Error(`Not a repository URL: ${input}`);
+
+  const repo = parts.join('/');
+  const webUrl = `${u.origin}/${repo}`;
+  // Generic servers may not answer to an added .git, so their URL is used as given
+  const cloneUrl = provider === 'generic' ? `${u.origin}${u.pathname}${u.search}` : `${webUrl}.git`;
+  const tree = treeSegments(provider, segments.slice(parts.length).map(decodeURIComponent));
+  return {
+    provider,
+    cloneUrl,
+    webUrl,
+    path: repo,
+    ...(tree?.path.length ? { treePath: tree.path } : {}),
+    ...(tree?.kind ? { treeRefKind: tree.kind } : {})
+  };
+}
+
+/**
+ * Short name for the repository, used to namespace its files in multi-repo jobs: the host path
+ * (org/repo, group/sub/repo), or the directory name for local remotes.
+ */
+export function repoName(remote: RepoRemote): string {
+  const name = remote.cloneUrl.startsWith('file://') ? path.posix.basename(remote.path) : remote.path;
+  return name.replace(/\.git$/i, '').replace(/^\/+/, '') || 'repo';
+}
+
+// Whether `url` is a browseUrl of a file in this repository (any ref)
+export function isRepoFileUrl(remote: RepoRemote, url: string): boolean {
+  return url.startsWith(remote.provider === 'generic' ? `${remote.cloneUrl}#` : `${remote.webUrl}/`);
+}
+
+/**
+ * A browseUrl narrowed to a line range, in the anchor syntax of the URL's host. Generic remotes
+ * have no web UI to link into, so their URLs are returned unchanged.
+ */
+export function lineRangeUrl(fileUrl: string, startLine: number, endLine: number): string {
+  let provider: RepoProvider;
+  try {
+    provider = detectProvider(new URL(fileUrl).hostname);
+  } catch {
+    return fileUrl;
+  }
+  const base = fileUrl.split('#')[0];
+  switch (provider) {
+    case 'github':
+    case 'gitea':
+      return `${base}#L${startLine}-L${endLine}`;
+    case 'gitlab':
+      return `${base}#L${startLine}-${endLine}`;
+    case 'bitbucket':
+      return `${base}#lines-${startLine}:${endLine}`;
+    default:
+      return fileUrl;
+  }
+}
+
+/**
+ * Link to a file as the provider's web UI shows it. Generic remotes have no known UI, so they
+ * get a stable `<clone url>#<ref>:<path>` identifier instead.
+ */
+export function browseUrl(remote: RepoRemote, ref: RepoRef, filePath: string): string {
+  const file = filePath.split('/').map(encodeURIComponent).join('/');
+  const name = ref.name.split('/').map(encodeURIComponent).join('/');
+  switch (remote.provider) {
+    case 'github':
+      return `${remote.webUrl}/blob/${name}/${file}`;
+    case 'gitlab':
+      return `${remote.webUrl}/-/blob/${name}/${file}`;
+    case 'bitbucket':
+      return `${remote.webUrl}/src/${name}/${file}`;
+    case 'gitea':
+      return `${remote.webUrl}/src/${ref.kind}/${name}/${file}`;
+    default:
+      return `${remote.cloneUrl}#${ref.name}:${filePath}`;
+  }
+}
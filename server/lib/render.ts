@@ -0,0 +1,91 @@
+import { parseRetryAfter } from './frontier';
+import { DocumentKind } from '../types';
+
+/**
+ * Page renderers for docs crawls
+ * - 'static' pages are fetched over HTTP by the scraper itself
+ * - 'browser' pages go through a PageRenderer; the default one drives headless Chromium via
+ *   playwright-core (optional dependency, loaded on first use)
+ * - setBrowserRendererFactory swaps the implementation, e.g. for a local fake in tests
+ */
+
+export type RenderOptions = {
+  userAgent: string;
+  waitForSelector?: string;
+  timeoutMs: number;
+};
+
+/**
+ * Outcome of loading one page, shared by the static fetcher and renderers.
+ * `document` is set instead of `html` for PDF/Office responses; `skipped` marks responses
+ * deliberately not read (unsupported type, document type disabled, over the size limit).
+ */
+export type FetchResult =
+  | {
+      ok: true;
+      html: string;
+      finalUrl: string;
+      etag?: string;
+      lastModified?: string;
+      notModified?: boolean;
+      document?: { kind: DocumentKind; data: Uint8Array };
+    }
+  | { ok: false; status?: number; retryAfterMs?: number; skipped?: string };
+
+export type PageRenderer = {
+  render(url: string, opts: RenderOptions): Promise<FetchResult>;
+  close(): Promise<void>;
+};
+
+export type PageRendererFactory = (opts: { userAgent: string }) => Promise<PageRenderer>;
+
+const CHROMIUM_PATH = process.env.CHROMIUM_PATH || undefined;
+
+async function createChromiumRenderer(opts: { userAgent: string }): Promise<PageRenderer> {
+  let chromium: typeof import('playwright-core').chromium;
+  try {
+    ({ chromium } = await import('playwright-core'));
+  } catch {
+    throw new Error('Browser rendering requires the optional "playwright-core" package');
+  }
+  const browser = await chromium.launch({ headless: true, ...(CHROMIUM_PATH ? { executablePath: CHROMIUM_PATH } : {}) });
+  const context = await browser.newContext({ userAgent: opts.userAgent });
+
+  return {
+    async render(url, { waitForSelector, timeoutMs }) {
+      const page = await context.newPage();
+      try {
+        // With a selector, DOM-ready plus the selector is enough; otherwise wait for the network to settle
+        const res = await page.goto(url, {
+          waitUntil: waitForSelector ? 'domcontentloaded' : 'networkidle',
+          timeout: timeoutMs
+        });
+        const status = res?.status();
+        if (status === 429 || status === 503) {
+          return { ok: false, status, retryAfterMs: parseRetryAfter(res?.headers()['retry-after']) };
+        }
+        if (status !== undefined && status >= 400) return { ok: false, status };
+        if (waitForSelector) await page.waitForSelector(waitForSelector, { timeout: timeoutMs });
+        return { ok: true, html: await page.content(), finalUrl: page.url() };
+      } catch {
+        return { ok: false };
+      } finally {
+        await page.close().catch(() => {});
+      }
+    },
+    async close() {
+      await context.close().catch(() => {});
+      await browser.close().catch(() => {});
+    }
+  };
+}
+
+let browserRendererFactory: PageRendererFactory = createChromiumRenderer;
+
+export function setBrowserRendererFactory(factory: PageRendererFactory | null): void {
+  browserRendererFactory = factory ?? createChromiumRenderer;
+}
+
+export function createBrowserRenderer(opts: { userAgent: string }): Promise<PageRenderer> {
+  return browserRendererFactory(opts);
+}
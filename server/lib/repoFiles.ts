@@ -0,0 +1,126 @@
+import path from 'path';
+import { DocumentKind } from '../types';
+
+/**
+ * File selection for repo jobs
+ * - presets: 'all' (prose, source code, config, API specs, notebooks) or 'docs' (prose, API specs,
+ *   notebooks, everything under docs/)
+ * - repoInclude globs add to the preset; repoExclude globs and the built-in list of vendored and
+ *   build-output directories and lockfiles are never collected, with or without a .gitignore
+ * - content checks catch what paths can't: binary data, generated code and minified bundles
+ */
+
+export type RepoFilePreset = 'all' | 'docs';
+
+export type RepoFileOptions = {
+  preset: RepoFilePreset;
+  include: string[];
+  exclude: string[];
+  maxFileBytes: number;
+};
+
+export type RepoSkipReason =
+  | 'too-large'
+  | 'binary'
+  | 'generated'
+  | 'minified'
+  | 'invalid-notebook'
+  | 'disabled-document-type'
+  | 'empty';
+
+const DOC_EXTENSIONS = ['md', 'mdx', 'markdown', 'rst', 'txt', 'adoc', 'asciidoc', 'org'];
+const CODE_EXTENSIONS = [
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte',
+  'py', 'pyi', 'go', 'rs', 'java', 'kt', 'kts', 'scala', 'groovy', 'cs', 'fs', 'vb',
+  'rb', 'php', 'swift', 'm', 'mm', 'c', 'h', 'cc', 'cpp', 'cxx', 'hpp', 'hh', 'dart',
+  'lua', 'r', 'jl', 'ex', 'exs', 'erl', 'hs', 'clj', 'sh', 'bash', 'zsh', 'ps1',
+  'sql', 'proto', 'graphql', 'gql'
+];
+const CONFIG_EXTENSIONS = ['yaml', 'yml', 'toml'];
+const SPEC_GLOB = '**/{openapi,swagger}*.{json,yaml,yml}';
+const NOTEBOOK_GLOB = '**/*.ipynb';
+
+// Dependency, virtualenv and build-output directories, and lockfiles
+const BUILTIN_EXCLUDES = [
+  '**/node_modules/**', '**/bower_components/**', '**/jspm_packages/**', '**/vendor/**',
+  '**/third_party/**', '**/third-party/**', '**/Pods/**', '**/Carthage/**', '**/.venv/**',
+  '**/venv/**', '**/__pycache__/**', '**/site-packages/**', '**/dist/**', '**/build/**',
+  '**/target/**', '**/coverage/**', '**/*.lock', '**/pnpm-lock.yaml', '**/package-lock.json'
+];
+
+const CODE = new Set([...CODE_EXTENSIONS, ...CONFIG_EXTENSIONS]);
+const SPEC_NAME = /^(openapi|swagger)[^/]*\.(json|ya?ml)$/i;
+const GENERATED_NAME = /(\.pb(\.gw)?\.go|_pb2(_grpc)?\.pyi?|\.g\.dart|\.freezed\.dart|\.designer\.cs|\.generated\.\w+)$/i;
+const GENERATED_HEADER = /@generated\b|\bDO NOT EDIT\b|\bauto-?generated\b|\bautomatically generated\b/i;
+const MINIFIED_NAME = /[.-]min\.(js|mjs|css)$/i;
+
+const brace = (exts: string[]) => (exts.length === 1 ? exts[0] : `{${exts.join(',')}}`);
+
+export function repoGlobs(opts: RepoFileOptions, documentTypes: DocumentKind[]): { patterns: string[]; ignore: string[] } {
+  const patterns = [`**/*.${brace(DOC_EXTENSIONS)}`, SPEC_GLOB, NOTEBOOK_GLOB];
+  if (opts.preset === 'docs') patterns.push('docs/**/*');
+  else patterns.push(`**/*.${brace([...CODE_EXTENSIONS, ...CONFIG_EXTENSIONS])}`, 'docs/**/*');
+  if (documentTypes.length) patterns.push(`**/*.${brace(documentTypes)}`);
+  return { patterns: [...patterns, ...opts.include], ignore: [...BUILTIN_EXCLUDES, ...opts.exclude] };
+}
+
+export function repoFileType(relPath: string): 'doc' | 'code' {
+  const ext = path.extname(relPath).slice(1).toLowerCase();
+  if (SPEC_NAME.test(path.basename(relPath))) return 'doc';
+  return CODE.has(ext) ? 'code' : 'doc';
+}
+
+export function isNotebook(relPath: string): boolean {
+  return /\.ipynb$/i.test(relPath);
+}
+
+// Git's heuristic: a NUL byte early on means binary; also reject text that is mostly control bytes
+export function isBinary(data: Uint8Array): boolean {
+  const sample = data.subarray(0, 8000);
+  let control = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (byte < 9 || (byte > 13 && byte < 32)) control++;
+  }
+  return sample.length > 0 && control / sample.length > 0.3;
+}
+
+/**
+ * Why a source file's text shouldn't be ingested, or null. Generated and minified checks only
+ * apply to code: prose that mentions being generated (API references) is still worth indexing.
+ */
+export function inspectRepoText(relPath: string, text: string): RepoSkipReason | null {
+  if (!text.trim()) return 'empty';
+  if (repoFileType(relPath) !== 'code') return null;
+  if (GENERATED_NAME.test(relPath)) return 'generated';
+  if (GENERATED_HEADER.test(text.split('\n', 5).join('\n'))) return 'generated';
+  if (MINIFIED_NAME.test(relPath)) return 'minified';
+  const lines = text.split('\n').length;
+  if (text.length > 1000 && text.length / lines > 300) return 'minified';
+  return null;
+}
+
+/**
+ * Jupyter notebook -> Markdown: markdown cells as-is, code cells fenced in the kernel's language.
+ * Outputs are dropped; they are mostly rendered data and images.
+ */
+export function notebookToMarkdown(json: string): string {
+  const nb = JSON.parse(json) as {
+    cells?: Array<{ cell_type?: string; source?: string | string[] }>;
+    metadata?: { language_info?: { name?: string }; kernelspec?: { language?: string } };
+  };
+  if (!Array.isArray(nb.cells)) throw new Error('Not a Jupyter notebook');
+  const lang = nb.metadata?.language_info?.name ?? nb.metadata?.kernelspec?.language ?? '';
+  const parts: string[] = [];
+  for (const cell of nb.cells) {
+    const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source ?? '').trim();
+    if (!source) continue;
+    if (cell.cell_type === 'markdown') parts.push(source);
+    else if (cell.cell_type === 'code') parts.push(`\`\`\`${lang}\n${source}\n\`\`\``);
+  }
+  return parts.join('\n\n');
+}
+
+export function summarizeSkips(skips: Map<RepoSkipReason, number>): string {
+  return [...skips].map(([reason, count]) => `${reason}: ${count}`).join(', ');
+}
@@ -0,0 +1,153 @@
+import { fetch } from 'undici';
+
+/**
+ * robots.txt support for the docs crawler (RFC 9309)
+ * - parseRobots: pick the group matching our user-agent, collect Allow/Disallow/Crawl-delay
+ * - isAllowedByRobots: longest-match wins, Allow wins ties, supports `*` and `$`
+ * - createRobotsCache: fetch robots.txt once per origin and memoize the parsed rules
+ */
+
+export const DEFAULT_USER_AGENT = process.env.CRAWLER_USER_AGENT || 'ScraperCompletedBot/0.1';
+const ROBOTS_TIMEOUT_MS = 10000;
+// Upper bound so a hostile Crawl-delay can't stall a job indefinitely
+const MAX_CRAWL_DELAY_SEC = 60;
+
+export type RobotsRule = { allow: boolean; pattern: string };
+
+export type RobotsRules = {
+  rules: RobotsRule[];
+  crawlDelaySec?: number;
+  sitemaps: string[];
+};
+
+export type RobotsCache = {
+  get(origin: string): Promise<RobotsRules>;
+};
+
+type Group = { agents: string[]; rules: RobotsRule[]; crawlDelaySec?: number };
+
+export function allowAll(): RobotsRules {
+  return { rules: [], sitemaps: [] };
+}
+
+export function disallowAll(): RobotsRules {
+  return { rules: [{ allow: false, pattern: '/' }], sitemaps: [] };
+}
+
+/** Product token used for group matching, e.g. "ScraperCompletedBot/0.1 (+url)" -> "scrapercompletedbot" */
+function productToken(userAgent: string): string {
+  return (userAgent.trim().split(/[\s/]/)[0] || '*').toLowerCase();
+}
+
+export function parseRobots(body: string, userAgent: string = DEFAULT_USER_AGENT): RobotsRules {
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  // Consecutive user-agent lines share one group; any rule line closes the agent list
+  let collectingAgents = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) continue;
+    const idx = line.indexOf(':');
+    if (idx < 0) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    const value = line.slice(idx + 1).trim();
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    if (!current) continue; // rules before any user-agent line are ignored
+    collectingAgents = false;
+    if (key === 'allow' || key === 'disallow') {
+      // An empty Disallow means "allow everything" and contributes no rule
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay') {
+      const n = Number(value);
+      if (Number.isFinite(n) && n >= 0) current.crawlDelaySec = Math.min(n, MAX_CRAWL_DELAY_SEC);
+    }
+  }
+
+  // Prefer groups naming our product token (whole token, case-insensitively); fall back to the `*` groups
+  const token = productToken(userAgent);
+  let matched = groups.filter(g => g.agents.some(a => a === token));
+  if (!matched.length) matched = groups.filter(g => g.agents.includes('*'));
+
+  const out: RobotsRules = { rules: [], sitemaps };
+  for (const g of matched) {
+    out.rules.push(...g.rules);
+    if (g.crawlDelaySec !== undefined) {
+      out.crawlDelaySec = Math.max(out.crawlDelaySec ?? 0, g.crawlDelaySec);
+    }
+  }
+  return out;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp('^' + body + (anchored ? '$' : ''));
+}
+
+export function isAllowedByRobots(rules: RobotsRules, url: string | URL): boolean {
+  const u = typeof url === 'string' ? new URL(url) : url;
+  const target = (u.pathname || '/') + u.search;
+  let best: RobotsRule | null = null;
+  for (const r of rules.rules) {
+    if (!patternToRegExp(r.pattern).test(target)) continue;
+    if (
+      !best ||
+      r.pattern.length > best.pattern.length ||
+      (r.pattern.length === best.pattern.length && r.allow && !best.allow)
+    ) {
+      best = r;
+    }
+  }
+  return best ? best.allow : true;
+}
+
+async function fetchRobots(origin: string, userAgent: string): Promise<RobotsRules> {
+  const ac = new AbortController();
+  const id = setTimeout(() => ac.abort(), ROBOTS_TIMEOUT_MS);
+  try {
+    const res = await fetch(`${origin}/robots.txt`, {
+      headers: { 'user-agent': userAgent },
+      signal: ac.signal
+    } as any);
+    if (res.ok) return parseRobots(await res.text(), userAgent);
+    // RFC 9309: 4xx means no restrictions, 5xx means the site is temporarily off-limits
+    if (res.status >= 400 && res.status < 500) return allowAll();
+    return disallowAll();
+  } catch {
+    return disallowAll();
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+export function createRobotsCache(userAgent: string = DEFAULT_USER_AGENT): RobotsCache {
+  const cache = new Map<string, Promise<RobotsRules>>();
+  return {
+    get(origin: string) {
+      let rules = cache.get(origin);
+      if (!rules) {
+        rules = fetchRobots(origin, userAgent);
+        cache.set(origin, rules);
+      }
+      return rules;
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { CreateJobRequest } from '../types';
+import { getJob, getSchedule, listDueSchedules, updateSchedule } from './db';
+import { nextRun, parseCron } from './cron';
+import { startJob } from './pipeline';
+import { logger } from './logger';
+
+/**
+ * Recurring jobs
+ * - every tick, each enabled schedule whose nextRunAt has passed gets a new job via the regular queue
+ * - a run is skipped while the schedule's previous job is still queued or running
+ * - runs missed while the server was down collapse into at most one run on startup
+ *   ('run-once'), or none ('skip'); either way nextRunAt moves to the next future slot
+ */
+
+const TICK_MS = Number(process.env.SCHEDULER_TICK_MS || 30000);
+// A due time further back than this was missed rather than just reached by the current tick
+const MISSED_GRACE_MS = TICK_MS * 2;
+const MAX_MISSED_COUNT = 1000;
+
+const log = logger.child({ module: 'scheduler' });
+
+let timer: NodeJS.Timeout | null = null;
+
+export function computeNextRunAt(cron: string, after: Date = new Date()): string {
+  return nextRun(cron, after).toISOString();
+}
+
+function countMissed(cron: string, from: Date, now: Date): number {
+  const schedule = parseCron(cron);
+  let count = 0;
+  for (let t = from; t <= now && count < MAX_MISSED_COUNT; t = nextRun(schedule, t)) count++;
+  return count;
+}
+
+function isBusy(jobId: string | null): boolean {
+  if (!jobId) return false;
+  const job = getJob(jobId);
+  return !!job && (job.status === 'queued' || job.status === 'running');
+}
+
+/**
+ * Create and enqueue a job from a schedule's stored request, and record it as the last run
+ */
+export function triggerSchedule(scheduleId: string, now: Date = new Date()): string {
+  const schedule = getSchedule(scheduleId);
+  if (!schedule) throw new Error(`Schedule ${scheduleId} not found`);
+  const request = CreateJobRequest.parse(JSON.parse(schedule.request));
+  const jobId = startJob(request, { scheduleId });
+  updateSchedule(scheduleId, { lastRunAt: now.toISOString(), lastJobId: jobId });
+  return jobId;
+}
+
+export function runDueSchedules(now: Date = new Date()): void {
+  for (const schedule of listDueSchedules(now.toISOString())) {
+    const dueAt = new Date(schedule.nextRunAt);
+    let nextRunAt: string | null;
+    try {
+      nextRunAt = computeNextRunAt(schedule.cron, now);
+    } catch (err: any) {
+      log.error(`Schedule ${schedule.id} disabled: ${err?.message}`);
+      updateSchedule(schedule.id, { enabled: false, nextRunAt: null });
+      continue;
+    }
+    // Advance first so a failing run can't fire on every tick
+    updateSchedule(schedule.id, { nextRunAt });
+
+    if (now.getTime() - dueAt.getTime() > MISSED_GRACE_MS) {
+      const missed = countMissed(schedule.cron, dueAt, now);
+      if (schedule.missedRunPolicy === 'skip') {
+        log.info(`Schedule ${schedule.id} skipped ${missed} missed run(s)`);
+        continue;
+      }
+      log.info(`Schedule ${schedule.id} missed ${missed} run(s); running once now`);
+    }
+
+    if (isBusy(schedule.lastJobId)) {
+      log.info(`Schedule ${schedule.id} skipped: job ${schedule.lastJobId} still in progress`);
+      continue;
+    }
+    try {
+      const jobId = triggerSchedule(schedule.id, now);
+      log.info(`Schedule ${schedule.id} started job ${jobId}`);
+    } catch (err: any) {
+      log.error({ err }, `Schedule ${schedule.id} failed to start a job`);
+    }
+  }
+}
+
+export function startScheduler(): void {
+  if (timer) return;
+  // First pass right away so runs missed during downtime are handled at startup
+  runDueSchedules();
+  timer = setInterval(() => runDueSchedules(), TICK_MS);
+}
+
+export function stopScheduler(): void {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,96 @@
+/**
+ * URL scoping for docs crawls
+ * - origins: the seed's own origin plus any explicitly allowed extra origins
+ * - stayUnderSeedPath: on seed origins, only paths under a seed's directory
+ * - include/exclude: globs (`/docs/**`, `https://api.example.com/*`) or `re:`-prefixed regexes
+ *   Globs starting with a scheme match the full URL, others match the path; regexes search the full URL.
+ */
+
+export type ScopeOptions = {
+  include: string[];
+  exclude: string[];
+  stayUnderSeedPath: boolean;
+  allowedOrigins: string[];
+};
+
+export type ScopeRejection = 'origin' | 'seed-path' | 'include' | 'exclude';
+
+export type UrlScope = {
+  /** Returns null when `u` may be enqueued, otherwise the rule that rejected it */
+  check(u: URL, seedOrigin: string): ScopeRejection | null;
+};
+
+type Matcher = (u: URL) => boolean;
+
+function globToRegExp(glob: string): RegExp {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i]!;
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        out += '.*';
+        i++;
+      } else {
+        out += '[^/]*';
+      }
+    } else if (ch === '?') {
+      out += '[^/]';
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp('^' + out + '$');
+}
+
+export function compilePattern(pattern: string): Matcher {
+  if (pattern.startsWith('re:')) {
+    const re = new RegExp(pattern.slice(3));
+    return u => re.test(u.toString());
+  }
+  const re = globToRegExp(pattern);
+  if (/^https?:\/\//i.test(pattern)) return u => re.test(u.origin + u.pathname);
+  return u => re.test(u.pathname);
+}
+
+/** Directory a seed URL scopes to: `/docs/v2/intro.html` -> `/docs/v2/`, `/docs/v2` -> `/docs/v2/` */
+function seedPathPrefix(seed: URL): string {
+  const p = seed.pathname;
+  if (p.endsWith('/')) return p;
+  const last = p.slice(p.lastIndexOf('/') + 1);
+  return last.includes('.') ? p.slice(0, p.lastIndexOf('/') + 1) : p + '/';
+}
+
+function normalizeOrigin(o: string): string | null {
+  try {
+    return new URL(o).origin;
+  } catch {
+    return null;
+  }
+}
+
+export function createUrlScope(seeds: URL[], opts: ScopeOptions): UrlScope {
+  const include = opts.include.map(compilePattern);
+  const exclude = opts.exclude.map(compilePattern);
+  const extraOrigins = new Set(opts.allowedOrigins.map(normalizeOrigin).filter((o): o is string => !!o));
+  const prefixes = new Map<string, string[]>();
+  for (const s of seeds) {
+    const list = prefixes.get(s.origin) ?? [];
+    list.push(seedPathPrefix(s));
+    prefixes.set(s.origin, list);
+  }
+
+  return {
+    check(u, seedOrigin) {
+      if (u.origin !== seedOrigin && !extraOrigins.has(u.origin)) return 'origin';
+      if (opts.stayUnderSeedPath) {
+        const list = prefixes.get(u.origin);
+        // The bare directory (`/docs/v2`) counts as under its own prefix (`/docs/v2/`)
+        const path = u.pathname.endsWith('/') ? u.pathname : u.pathname + '/';
+        if (list && !list.some(p => path.startsWith(p))) return 'seed-path';
+      }
+      if (exclude.some(m => m(u))) return 'exclude';
+      if (include.length && !include.some(m => m(u))) return 'include';
+      return null;
+    }
+  };
+}
@@ -1,19 +1,74 @@
 import path from 'path';
 import { promises as fs, existsSync, mkdirSync, statSync } from 'fs';
 import * as nodeFs from 'fs';
-import { load } from 'cheerio';
-// ...
-const $ = load(html);
+import * as cheerio from 'cheerio';
 import git from 'isomorphic-git';
 import http from 'isomorphic-git/http/node';
 import { globby } from 'globby';
 import { fetch } from 'undici';
-import { FileRec, Job } from '../types';
-import { saveFiles } from './db';
+import { DocumentKind, FileRec, Job, RepoFailure, RepoRevision } from '../types';
+import { deleteFiles, saveFiles, updateJob } from './db';
+import { DEFAULT_USER_AGENT, createRobotsCache, isAllowedByRobots } from './robots';
+import { discoverSitemapUrls } from './sitemap';
+import { createHostScheduler, parseRetryAfter } from './frontier';
+import { createUrlScope, ScopeOptions, ScopeRejection } from './scope';
+import { canonicalizeUrl, contentHash, urlKey } from './canonical';
+import { createBrowserRenderer, FetchResult, PageRenderer } from './render';
+import { htmlToMarkdown } from './markdown';
+import { detectDocumentKind, documentKindFromPath, extractDocument } from './documents';
+import { gitAuthCallbacks } from './credentials';
+import {
+  inspectRepoText,
+  isBinary,
+  isNotebook,
+  notebookToMarkdown,
+  repoFileType,
+  RepoFileOptions,
+  repoGlobs,
+  RepoSkipReason,
+  summarizeSkips
+} from './repoFiles';
+import {
+  browseUrl,
+  isRepoFileUrl,
+  looksLikeSha,
+  parseRepoUrl,
+  repoName,
+  repoTarget,
+  RepoRef,
+  RepoRemote,
+  RepoTarget
+} from './remotes';
 
 type LogFn = (level: 'info' | 'error' | 'debug', message: string) => void;
 type ReportProgressFn = (progress0to70: number) => void;
 
+type DocumentOptions = {
+  documentTypes: DocumentKind[];
+  maxDocumentBytes: number;
+};
+
+type CrawlOptions = DocumentOptions & {
+  userAgent: string;
+  respectRobots: boolean;
+  discovery: 'links' | 'sitemap' | 'both';
+  concurrency: number;
+  perHostConcurrency: number;
+  perHostRps: number;
+  scope: ScopeOptions;
+  render: 'static' | 'browser';
+  waitForSelector?: string;
+  renderTimeoutMs: number;
+  contentSelector?: string;
+  previousFiles: FileRec[];
+};
+
+type CrawlItem = { url: string; depth: number; origin: string; attempt?: number };
+
+// Give up on a URL after this many 429/503 responses
+const MAX_BACKOFF_ATTEMPTS = 3;
+const THROUGHPUT_LOG_EVERY = 25;
+
 const CACHE_ROOT = path.join(process.cwd(), 'server', '.cache', 'jobs');
 
 function ensureDir(dir: string) {
@@ -24,43 +79,107 @@ function sanitizeFileName(name: string): string {
   return name.replace(/[\\/:*?"<>|]/g, '_');
 }
 
-async function fetchWithRetry(url: string, timeoutMs = 15000, retries = 2): Promise<string | null> {
+function sleep(ms: number): Promise<void> {
+  return new Promise(r => setTimeout(r, ms));
+}
+
+// Markup and plain text go through the HTML pipeline; other non-document types are skipped
+function isTextual(mime: string): boolean {
+  return !mime || mime.startsWith('text/') || mime.includes('html') || mime.includes('xml');
+}
+
+/** Read a response body, giving up (and cancelling the download) past `maxBytes` */
+async function readBody(res: Awaited<ReturnType<typeof fetch>>, maxBytes: number): Promise<Uint8Array | null> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes || !res.body) {
+    await res.body?.cancel().catch(() => {});
+    return declared > maxBytes ? null : new Uint8Array();
+  }
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for await (const chunk of res.body) {
+    total += chunk.byteLength;
+    if (total > maxBytes) return null; // leaving the loop cancels the stream
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch a page, retrying network errors and 5xx responses in place.
+ * 429/503 are returned straight away so the crawl frontier can back off the whole host.
+ */
+async function fetchWithRetry(
+  url: string,
+  userAgent: string,
+  docs: DocumentOptions,
+  validators: { etag?: string; lastModified?: string } = {},
+  timeoutMs = 15000,
+  retries = 2
+): Promise<FetchResult> {
+  const headers: Record<string, string> = { 'user-agent': userAgent };
+  // Conditional request on refresh runs; a 304 lets the caller reuse the stored page
+  if (validators.etag) headers['if-none-match'] = validators.etag;
+  if (validators.lastModified) headers['if-modified-since'] = validators.lastModified;
+  let status: number | undefined;
   for (let attempt = 0; attempt <= retries; attempt++) {
     const ac = new AbortController();
     const id = setTimeout(() => ac.abort(), timeoutMs);
     try {
-      const res = await fetch(url, { signal: ac.signal } as any);
+      const res = await fetch(url, { signal: ac.signal, headers } as any);
       clearTimeout(id);
+      status = res.status;
+      if (res.status === 304) return { ok: true, html: '', finalUrl: url, notModified: true };
+      if (res.status === 429 || res.status === 503) {
+        return { ok: false, status, retryAfterMs: parseRetryAfter(res.headers.get('retry-after')) };
+      }
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const finalUrl = res.url || url;
+      const validatorsOut = {
+        ...(res.headers.get('etag') ? { etag: res.headers.get('etag')! } : {}),
+        ...(res.headers.get('last-modified') ? { lastModified: res.headers.get('last-modified')! } : {})
+      };
+      const contentType = res.headers.get('content-type');
+      const kind = detectDocumentKind(contentType, finalUrl);
+      if (kind) {
+        if (!docs.documentTypes.includes(kind)) {
+          await res.body?.cancel().catch(() => {});
+          return { ok: false, status, skipped: `${kind.toUpperCase()} ingestion disabled` };
+        }
+        const data = await readBody(res, docs.maxDocumentBytes);
+        if (!data) return { ok: false, status, skipped: `${kind.toUpperCase()} larger than ${docs.maxDocumentBytes} bytes` };
+        return { ok: true, html: '', finalUrl, ...validatorsOut, document: { kind, data } };
+      }
+      const mime = (contentType ?? '').split(';')[0]!.trim().toLowerCase();
+      if (!isTextual(mime)) {
+        await res.body?.cancel().catch(() => {});
+        return { ok: false, status, skipped: `unsupported content type ${mime}` };
+      }
       const text = await res.text();
-      return text;
+      return { ok: true, html: text, finalUrl, ...validatorsOut };
     } catch (e) {
       clearTimeout(id);
-      if (attempt === retries) return null;
-      await new Promise(r => setTimeout(r, 500 * (attempt + 1)));
+      // Other 4xx won't change on retry
+      if (status !== undefined && status >= 400 && status < 500) break;
+      if (attempt === retries) break;
+      await sleep(500 * (attempt + 1));
     }
   }
-  return null;
+  return { ok: false, status };
 }
 
-function extractReadable(html: string, baseUrl: string): { title: string; text: string } {
-  const $ = cheerio.load(html);
-  // Strip noisy elements
-  const noisy = ['script', 'style', 'nav', 'footer', 'header', 'aside', 'noscript'];
-  noisy.forEach(sel => $(sel).remove());
-  // Prefer headings and paragraphs
-  const parts: string[] = [];
-  const title = ($('title').first().text() || '').trim();
-  $('h1,h2,h3,h4,h5,h6,p,li,pre,code').each((_, el) => {
-    const t = $(el).text().trim();
-    if (t) parts.push(t);
-  });
-  const text = parts.join('\n\n');
-  return { title, text };
+function pickValidators(f: FileRec): { etag?: string; lastModified?: string } {
+  return {
+    ...(f.etag ? { etag: f.etag } : {}),
+    ...(f.lastModified ? { lastModified: f.lastModified } : {})
+  };
 }
 
-function isSameOrigin(u: URL, origin: string): boolean {
-  return u.origin === origin;
+function extractReadable(html: string, baseUrl: string, contentSelector?: string): { title: string; text: string } {
+  const { title, markdown } = htmlToMarkdown(html, baseUrl, contentSelector);
+  // Promote the <title> to a top-level heading unless the content already opens with one
+  const text = !title || markdown.startsWith('# ') ? markdown : `# ${title}\n\n${markdown}`;
+  return { title, text };
 }
 
 function normalizeUrl(href: string, base: string): URL | null {
@@ -73,133 +192,588 @@ function normalizeUrl(href: string, base: string): URL | null {
   }
 }
 
-async function crawlDocs(seeds: string[], depth: number, maxPages: number, log: LogFn, report: ReportProgressFn): Promise<FileRec[]> {
+async function crawlDocs(
+  seeds: string[],
+  depth: number,
+  maxPages: number,
+  opts: CrawlOptions,
+  log: LogFn,
+  report: ReportProgressFn
+): Promise<FileRec[]> {
   const visited = new Set<string>();
-  const queue: Array<{ url: string; depth: number; origin: string }> = [];
+  const queue: CrawlItem[] = [];
+  const queued = new Set<string>();
   const files: FileRec[] = [];
   let processed = 0;
+  const robots = createRobotsCache(opts.userAgent);
+  const hosts = createHostScheduler({ perHostConcurrency: opts.perHostConcurrency, perHostRps: opts.perHostRps });
+  const robotsLoaded = new Set<string>();
+  let robotsSkipped = 0;
+  let fetched = 0;
+  const dupes = { redirect: 0, canonical: 0, content: 0 };
+  const previous = new Map(opts.previousFiles.map(f => [urlKey(f.url), f] as const));
+  let notModified = 0;
+  let keptOnFailure = 0;
+  let skipped = 0;
+  let documents = 0;
+  let renderer: PageRenderer | null = null;
+  const contentHashes = new Map<string, string>();
+  const startedAt = Date.now();
+
+  const enqueue = (item: CrawlItem): boolean => {
+    const key = urlKey(item.url);
+    if (visited.has(key) || queued.has(key)) return false;
+    queued.add(key);
+    queue.push(item);
+    return true;
+  };
 
   // Initialize queue with seeds, track their origin
+  const seedUrls: URL[] = [];
   for (const s of seeds) {
     try {
       const u = new URL(s);
-      queue.push({ url: u.toString(), depth: 0, origin: u.origin });
+      seedUrls.push(u);
+      enqueue({ url: canonicalizeUrl(u), depth: 0, origin: u.origin });
     } catch {
       log('error', `Invalid URL seed: ${s}`);
     }
   }
 
-  while (queue.length && processed < maxPages) {
-    const { url, depth: d, origin } = queue.shift()!;
-    if (visited.has(url)) continue;
-    visited.add(url);
+  // Seeds are always crawled; scope rules apply to everything discovered from them
+  const scope = createUrlScope(seedUrls, opts.scope);
+  const outOfScope = new Map<ScopeRejection, Set<string>>();
+  const enqueueInScope = (u: URL, depth: number, origin: string): boolean => {
+    const clean = canonicalizeUrl(u);
+    const rejected = scope.check(new URL(clean), origin);
+    if (rejected) {
+      const seen = outOfScope.get(rejected) ?? new Set<string>();
+      seen.add(clean);
+      outOfScope.set(rejected, seen);
+      return false;
+    }
+    return enqueue({ url: clean, depth, origin });
+  };
 
-    log('debug', `Fetch ${url} (depth ${d})`);
-    const html = await fetchWithRetry(url);
-    if (!html) {
-      log('error', `Failed to fetch ${url}`);
-      continue;
+  // Sitemap URLs enter at depth 1, as if linked from the seed. They're enqueued as discovered, so
+  // only in-scope ones count toward the maxPages cap on discovery.
+  if (opts.discovery !== 'links') {
+    const origins = [...new Set(queue.map(q => q.origin))];
+    for (const origin of origins) {
+      const rules = await robots.get(origin);
+      if (opts.respectRobots && !isAllowedByRobots(rules, `${origin}/`)) {
+        log('info', `Sitemap discovery for ${origin} skipped: robots.txt disallows /`);
+        continue;
+      }
+      const found = await discoverSitemapUrls(origin, rules.sitemaps, opts.userAgent, maxPages, log, loc => {
+        const u = normalizeUrl(loc, origin);
+        return !!u && enqueueInScope(u, 1, origin);
+      });
+      log('info', `Sitemap discovery for ${origin}: ${found.length} URLs enqueued`);
     }
+  }
 
-    const { title, text } = extractReadable(html, url);
-    const content = [title, text].filter(Boolean).join('\n\n').trim();
-    if (content) {
-      const nameFromPath = sanitizeFileName(new URL(url).pathname.replace(/^\/+/, '') || 'index.html');
-      const name = nameFromPath.endsWith('.html') ? nameFromPath : `${nameFromPath || 'index'}.html`;
-      const rec: FileRec = {
-        name,
-        url,
-        type: 'doc',
-        text: content,
-        sizeBytes: Buffer.byteLength(content, 'utf-8'),
-      };
-      files.push(rec);
+  // Refresh runs revisit everything the last run stored, even if no longer linked
+  if (opts.previousFiles.length) {
+    let added = 0;
+    for (const f of opts.previousFiles) {
+      const u = normalizeUrl(f.url, f.url);
+      if (!u) continue;
+      // Pages on extra allowed origins are scoped as if linked from the first seed
+      const origin = seedUrls.some(s => s.origin === u.origin) ? u.origin : seedUrls[0]?.origin ?? u.origin;
+      if (enqueueInScope(u, 1, origin)) added++;
+    }
+    log('info', `Refresh: revisiting ${added} previously stored URLs`);
+  }
+
+  const logThroughput = (final: boolean) => {
+    const secs = Math.max(0.001, (Date.now() - startedAt) / 1000);
+    const rate = (fetched / secs).toFixed(2);
+    log('info', `${final ? 'Crawl finished' : 'Crawl progress'}: ${processed} pages saved, ${fetched} fetched in ${secs.toFixed(1)}s (${rate} pages/s)`);
+  };
+
+  // Refresh runs: carry a stored page over as it was
+  const keepPrevious = (prev: FileRec) => {
+    if (prev.contentHash) contentHashes.set(prev.contentHash, prev.url);
+    if (processed < maxPages) {
+      files.push({ ...prev });
       processed++;
-      const progress = Math.min(70, Math.round((processed / Math.max(1, maxPages)) * 70));
-      report(progress);
+      report(Math.min(70, Math.round((processed / Math.max(1, maxPages)) * 70)));
+    }
+  };
+
+  const crawlOne = async (item: CrawlItem, pageOrigin: string): Promise<void> => {
+    const { url, depth: d, origin } = item;
+    log('debug', `Fetch ${url} (depth ${d})`);
+    const prev = previous.get(urlKey(url));
+    let result: FetchResult;
+    const docs = { documentTypes: opts.documentTypes, maxDocumentBytes: opts.maxDocumentBytes };
+    try {
+      // Documents are downloaded directly; a browser would only offer them as a download
+      result = renderer && !documentKindFromPath(new URL(url).pathname)
+        ? await renderer.render(url, {
+            userAgent: opts.userAgent,
+            timeoutMs: opts.renderTimeoutMs,
+            ...(opts.waitForSelector ? { waitForSelector: opts.waitForSelector } : {})
+          })
+        : await fetchWithRetry(url, opts.userAgent, docs, prev ? pickValidators(prev) : {});
+    } finally {
+      hosts.finish(pageOrigin);
+    }
+    if (!result.ok) {
+      if (result.skipped) {
+        skipped++;
+        log('info', `Skipped ${url}: ${result.skipped}`);
+        return;
+      }
+      if (result.status === 429 || result.status === 503) {
+        const attempt = (item.attempt ?? 0) + 1;
+        const waitMs = hosts.backoff(pageOrigin, result.retryAfterMs);
+        if (attempt <= MAX_BACKOFF_ATTEMPTS) {
+          log('info', `HTTP ${result.status} from ${pageOrigin}, pausing host for ${Math.round(waitMs / 1000)}s (retry ${attempt}/${MAX_BACKOFF_ATTEMPTS} for ${url})`);
+          visited.delete(urlKey(url));
+          queued.add(urlKey(url));
+          queue.unshift({ ...item, attempt });
+          return;
+        }
+      }
+      log('error', `Failed to fetch ${url}${result.status ? ` (HTTP ${result.status})` : ''}`);
+      // Only 404/410 say the page is gone; through outages and timeouts the stored copy stays
+      if (prev && result.status !== 404 && result.status !== 410) {
+        keptOnFailure++;
+        keepPrevious(prev);
+      }
+      return;
+    }
+    const html = result.html;
+    fetched++;
+    if (fetched % THROUGHPUT_LOG_EVERY === 0) logThroughput(false);
+
+    // Unchanged since the last run: keep the stored page. Its links are unchanged too,
+    // and every URL the last run saw is already in the frontier.
+    if (result.notModified && prev) {
+      notModified++;
+      keepPrevious(prev);
+      return;
+    }
+
+    // Redirect targets and rel=canonical decide which URL the page is recorded under
+    const baseUrl = result.finalUrl;
+    let pageUrl = url;
+    const redirected = canonicalizeUrl(baseUrl);
+    if (urlKey(redirected) !== urlKey(url)) {
+      if (visited.has(urlKey(redirected))) {
+        dupes.redirect++;
+        log('debug', `Duplicate ${url} (redirects to ${redirected})`);
+        return;
+      }
+      visited.add(urlKey(redirected));
+      pageUrl = redirected;
+    }
+    const validators = {
+      ...(result.etag ? { etag: result.etag } : {}),
+      ...(result.lastModified ? { lastModified: result.lastModified } : {})
+    };
+    // Saves the page unless its content duplicates one already saved
+    const addPage = (content: string, name: string, extra: Partial<FileRec> = {}) => {
+      const hash = content ? contentHash(content) : '';
+      if (hash && contentHashes.has(hash)) {
+        dupes.content++;
+        log('debug', `Duplicate ${url} (same content as ${contentHashes.get(hash)})`);
+      } else if (content && processed < maxPages) {
+        contentHashes.set(hash, pageUrl);
+        const rec: FileRec = {
+          name,
+          url: pageUrl,
+          type: 'doc',
+          text: content,
+          sizeBytes: Buffer.byteLength(content, 'utf-8'),
+          contentHash: hash,
+          ...validators,
+          ...extra
+        };
+        files.push(rec);
+        processed++;
+        const progress = Math.min(70, Math.round((processed / Math.max(1, maxPages)) * 70));
+        report(progress);
+      }
+    };
+
+    if (result.document) {
+      const { kind, data } = result.document;
+      try {
+        const doc = await extractDocument(kind, data);
+        documents++;
+        log('info', `Extracted ${kind.toUpperCase()} ${pageUrl} (${doc.pages.length} pages)`);
+        const name = sanitizeFileName(new URL(pageUrl).pathname.replace(/^\/+/, '')) || `document.${kind}`;
+        addPage(doc.text, name, { pages: doc.pages });
+      } catch (e: any) {
+        log('error', `Failed to extract ${kind.toUpperCase()} ${pageUrl}: ${e?.message || e}`);
+      }
+      return;
+    }
+
+    const $ = cheerio.load(html);
+    const canonicalHref = $('link[rel~="canonical"]').first().attr('href');
+    const canonicalUrl = canonicalHref ? normalizeUrl(canonicalHref, baseUrl) : null;
+    // Only trust rel=canonical when it points somewhere this crawl would go itself
+    if (canonicalUrl && !scope.check(canonicalUrl, origin)) {
+      const canonical = canonicalizeUrl(canonicalUrl);
+      if (urlKey(canonical) !== urlKey(pageUrl)) {
+        if (visited.has(urlKey(canonical))) {
+          dupes.canonical++;
+          log('debug', `Duplicate ${url} (rel=canonical ${canonical})`);
+          return;
+        }
+        visited.add(urlKey(canonical));
+        pageUrl = canonical;
+      }
     }
 
-    if (d < depth) {
-      const $ = cheerio.load(html);
+    const { title, text } = extractReadable(html, baseUrl, opts.contentSelector);
+    const nameFromPath = sanitizeFileName(new URL(pageUrl).pathname.replace(/^\/+/, '') || 'index.html');
+    addPage((text || title).trim(), nameFromPath.endsWith('.html') ? nameFromPath : `${nameFromPath || 'index'}.html`);
+
+    if (d < depth && opts.discovery !== 'sitemap') {
       $('a[href]').each((_, a) => {
         const href = $(a).attr('href') || '';
         if (!href) return;
         if (href.startsWith('#') || href.startsWith('mailto:') || href.startsWith('javascript:')) return;
-        const u = normalizeUrl(href, url);
-        if (!u) return;
-        if (!isSameOrigin(u, origin)) return; // same-origin restriction
-        const clean = u.toString().replace(/#.*$/, '');
-        if (!visited.has(clean)) {
-          queue.push({ url: clean, depth: d + 1, origin });
-        }
+        const u = normalizeUrl(href, baseUrl);
+        if (u) enqueueInScope(u, d + 1, origin);
       });
     }
+  };
+
+  // Frontier loop: dispatch the earliest queued URL whose host is ready, so ordering
+  // stays breadth-first except where a host is throttled or backing off.
+  try {
+    if (opts.render === 'browser') {
+      renderer = await createBrowserRenderer({ userAgent: opts.userAgent });
+      log('info', `Rendering pages in a headless browser${opts.waitForSelector ? ` (waiting for ${opts.waitForSelector})` : ''}`);
+    }
+    const inFlight = new Set<Promise<void>>();
+    while (processed < maxPages) {
+      let nextReadyAt = Number.POSITIVE_INFINITY;
+      while (inFlight.size < opts.concurrency && processed + inFlight.size < maxPages) {
+        const now = Date.now();
+        const blocked = new Set<string>();
+        let picked = -1;
+        for (let i = 0; i < queue.length; i++) {
+          const item = queue[i]!;
+          if (visited.has(urlKey(item.url))) {
+            queue.splice(i--, 1);
+            continue;
+          }
+          const pageOrigin = new URL(item.url).origin;
+          if (blocked.has(pageOrigin)) continue;
+          if (!robotsLoaded.has(pageOrigin)) {
+            picked = i; // load robots.txt before the first request to a new origin
+            break;
+          }
+          const at = hosts.readyAt(pageOrigin, now);
+          if (at === 0) {
+            picked = i;
+            break;
+          }
+          blocked.add(pageOrigin);
+          nextReadyAt = Math.min(nextReadyAt, at);
+        }
+        if (picked < 0) break;
+
+        const item = queue.splice(picked, 1)[0]!;
+        queued.delete(urlKey(item.url));
+        const pageOrigin = new URL(item.url).origin;
+        if (!robotsLoaded.has(pageOrigin)) {
+          robotsLoaded.add(pageOrigin);
+          if (opts.respectRobots) {
+            const rules = await robots.get(pageOrigin);
+            if (rules.crawlDelaySec) {
+              hosts.setCrawlDelay(pageOrigin, rules.crawlDelaySec);
+              log('info', `Honoring Crawl-delay of ${rules.crawlDelaySec}s for ${pageOrigin}`);
+            }
+          }
+          queued.add(urlKey(item.url));
+          queue.unshift(item); // re-evaluate now that the host's pacing is known
+          continue;
+        }
+
+        visited.add(urlKey(item.url));
+        if (opts.respectRobots && !isAllowedByRobots(await robots.get(pageOrigin), item.url)) {
+          robotsSkipped++;
+          log('info', `Skipped ${item.url} (disallowed by robots.txt)`);
+          continue;
+        }
+
+        hosts.start(pageOrigin);
+        const task: Promise<void> = crawlOne(item, pageOrigin)
+          .catch((e: any) => log('error', `Crawl error for ${item.url}: ${e?.message || e}`))
+          .finally(() => inFlight.delete(task));
+        inFlight.add(task);
+      }
+
+      if (inFlight.size === 0 && (!queue.length || processed >= maxPages)) break;
+      // Wake on the first finished request, or when a throttled host becomes ready
+      const waits: Promise<unknown>[] = [...inFlight];
+      if (queue.length && Number.isFinite(nextReadyAt)) waits.push(sleep(Math.max(0, nextReadyAt - Date.now())));
+      if (!waits.length) break;
+      await Promise.race(waits);
+    }
+    await Promise.all(inFlight);
+  } finally {
+    await renderer?.close();
   }
 
+  if (robotsSkipped) log('info', `robots.txt excluded ${robotsSkipped} URLs`);
+  if (outOfScope.size) {
+    const summary = [...outOfScope].map(([reason, urls]) => `${reason}: ${urls.size}`).join(', ');
+    log('info', `Out-of-scope URLs not enqueued (${summary})`);
+  }
+  const dupeTotal = dupes.redirect + dupes.canonical + dupes.content;
+  if (dupeTotal) {
+    log('info', `Deduplicated ${dupeTotal} pages (redirect: ${dupes.redirect}, rel=canonical: ${dupes.canonical}, identical content: ${dupes.content})`);
+  }
+  if (notModified) log('info', `${notModified} pages not modified since the last run (HTTP 304)`);
+  if (keptOnFailure) log('info', `Kept the stored copy of ${keptOnFailure} pages that failed to fetch`);
+  if (documents) log('info', `Extracted text from ${documents} documents`);
+  if (skipped) log('info', `Skipped ${skipped} responses (unsupported or disabled content type, or over the size limit)`);
+  logThroughput(true);
   return files;
 }
 
-function parseGitHubRepoUrl(repoUrl: string): { org: string; repo: string } | null {
-  try {
-    const u = new URL(repoUrl);
-    if (u.hostname !== 'github.com') return null;
-    const parts = u.pathname.split('/').filter(Boolean);
-    if (parts.length < 2) return null;
-    return { org: parts[0], repo: parts[1] };
-  } catch {
-    return null;
-  }
+// Local remotes can't be fetched over a git transport, so their git directory is copied instead
+async function copyLocalRepo(localPath: string, repoDir: string): Promise<void> {
+  const worktreeGit = path.join(localPath, '.git');
+  const bare = !existsSync(worktreeGit);
+  if (bare && !existsSync(path.join(localPath, 'HEAD'))) throw new Error(`Not a git repository: ${localPath}`);
+  await fs.cp(bare ? localPath : worktreeGit, path.join(repoDir, '.git'), { recursive: true });
+  if (bare) await git.setConfig({ fs: nodeFs as any, dir: repoDir, path: 'core.bare', value: false });
 }
 
-async function scrapeRepo(repoUrl: string, repoDir: string, log: LogFn) {
-  const parsed = parseGitHubRepoUrl(repoUrl);
-  if (!parsed) throw new Error(`Unsupported repo URL: ${repoUrl}`);
-  const { org, repo } = parsed;
-  const url = `https://github.com/${org}/${repo}.git`;
+/**
+ * Clone (or copy) the remote into repoDir and check out the target ref: the default branch when
+ * none is given. Branches and tags are fetched shallow; a commit SHA needs the full history.
+ * Hosts that ask for authentication get the credentials stored for them (see lib/credentials).
+ */
+async function scrapeRepo(
+  remote: RepoRemote,
+  target: RepoTarget,
+  repoDir: string,
+  log: LogFn
+): Promise<{ ref: RepoRef; commit: string }> {
+  const gitFs = nodeFs as any;
+  const wanted = target.ref;
+  const bySha = !!wanted && (target.refKind === 'commit' || (!target.refKind && looksLikeSha(wanted)));
   ensureDir(repoDir);
-  log('info', `Cloning ${url} (shallow)`);
-  await git.clone({
-    fs: nodeFs as any,
-    http,
-    dir: repoDir,
-    url,
-    depth: 1,
-    singleBranch: true
-  });
+  if (remote.cloneUrl.startsWith('file://')) {
+    log('info', `Copying local repository ${remote.path}`);
+    await copyLocalRepo(remote.path, repoDir);
+  } else {
+    log('info', `Cloning ${remote.cloneUrl}${wanted ? ` at ${wanted}` : ''} (${bySha ? 'full history' : 'shallow'}, ${remote.provider})`);
+    await git.clone({
+      fs: gitFs,
+      http,
+      dir: repoDir,
+      url: remote.cloneUrl,
+      ...gitAuthCallbacks(remote.provider, log),
+      ...(bySha ? { noCheckout: true } : { depth: 1, singleBranch: true, ...(wanted ? { ref: wanted } : {}) })
+    });
+  }
+
+  let ref: RepoRef;
+  if (bySha) {
+    const oid = await git.expandOid({ fs: gitFs, dir: repoDir, oid: wanted! }).catch(() => {
+      throw new Error(`Commit ${wanted} not found in ${remote.cloneUrl}`);
+    });
+    await git.checkout({ fs: gitFs, dir: repoDir, ref: oid, force: true });
+    ref = { kind: 'commit', name: oid };
+  } else {
+    // Cloned refs are already checked out; local copies still need it
+    if (remote.cloneUrl.startsWith('file://')) {
+      await git.checkout({ fs: gitFs, dir: repoDir, force: true, ...(wanted ? { ref: wanted } : {}) });
+    }
+    const branch = await git.currentBranch({ fs: gitFs, dir: repoDir });
+    const tags = wanted && !branch ? await git.listTags({ fs: gitFs, dir: repoDir }) : [];
+    if (branch) ref = { kind: 'branch', name: branch };
+    else if (wanted && tags.includes(wanted)) ref = { kind: 'tag', name: wanted };
+    else ref = { kind: 'commit', name: await git.resolveRef({ fs: gitFs, dir: repoDir, ref: 'HEAD' }) };
+  }
+  const commit = await git.resolveRef({ fs: gitFs, dir: repoDir, ref: 'HEAD' });
+  log('info', `Checked out ${ref.kind} ${ref.name} at ${commit}`);
+  return { ref, commit };
 }
 
-async function collectRepoFiles(repoUrl: string, repoDir: string, log: LogFn): Promise<FileRec[]> {
-  // Glob patterns for docs and code
-  const docGlobs = ['**/*.md', '**/*.rst', '**/*.txt', 'docs/**/*'];
-  const codeGlobs = ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.py', '**/*.go', '**/*.rs'];
-  const patterns = [...docGlobs, ...codeGlobs];
-  const paths = await globby(patterns, { cwd: repoDir, gitignore: true, dot: false });
-  log('info', `Globbing collected ${paths.length} candidate files`);
+/**
+ * Files of a checked-out repo, selected by the job's preset and globs (see lib/repoFiles). Names are
+ * "<namespace>/<path in repo>" so files of different repos in one job can't collide; onProgress
+ * gets the fraction of candidate files read so far.
+ */
+async function collectRepoFiles(
+  remote: RepoRemote,
+  checkout: { ref: RepoRef; commit: string; subdir?: string; namespace: string },
+  repoDir: string,
+  options: DocumentOptions & { files: RepoFileOptions },
+  log: LogFn,
+  onProgress: (fraction: number) => void = () => {}
+): Promise<FileRec[]> {
+  const { patterns, ignore } = repoGlobs(options.files, options.documentTypes);
+  // Globs are scoped to the subdirectory; exclude globs, names and links stay relative to the repo root
+  if (checkout.subdir && !existsSync(path.join(repoDir, checkout.subdir))) {
+    throw new Error(`Subdirectory ${checkout.subdir} not found at ${checkout.ref.name}`);
+  }
+  const scoped = checkout.subdir ? patterns.map(p => path.posix.join(checkout.subdir!, p)) : patterns;
+  const paths = await globby(scoped, { cwd: repoDir, ignore, gitignore: true, dot: false });
+  log('info', `Globbing collected ${paths.length} candidate files${checkout.subdir ? ` under ${checkout.subdir}` : ''}`);
 
   const files: FileRec[] = [];
-  for (const rel of paths) {
+  const skips = new Map<RepoSkipReason, number>();
+  const skip = (rel: string, reason: RepoSkipReason) => {
+    skips.set(reason, (skips.get(reason) ?? 0) + 1);
+    log('debug', `Skipped ${rel} (${reason})`);
+  };
+  for (const [i, rel] of paths.entries()) {
+    if (i % 50 === 0) onProgress(i / paths.length);
     const abs = path.join(repoDir, rel);
+    const repoPath = rel.replace(/\\/g, '/');
+    const name = `${checkout.namespace}/${repoPath}`;
+    const url = browseUrl(remote, checkout.ref, repoPath);
+    const commit = checkout.commit;
     try {
       const s = statSync(abs);
       if (!s.isFile()) continue;
-      if (s.size > 200 * 1024) continue; // 200KB cap
-      const text = await fs.readFile(abs, 'utf-8');
+      // docs/**/* also matches documents of disabled types; those are skipped like other binaries
+      const kind = documentKindFromPath(rel);
+      if (kind) {
+        if (!options.documentTypes.includes(kind)) {
+          skip(rel, 'disabled-document-type');
+          continue;
+        }
+        if (s.size > options.maxDocumentBytes) {
+          skip(rel, 'too-large');
+          continue;
+        }
+        const doc = await extractDocument(kind, await fs.readFile(abs));
+        if (!doc.text) {
+          skip(rel, 'empty');
+          continue;
+        }
+        files.push({ name, url, type: 'doc', text: doc.text, sizeBytes: Buffer.byteLength(doc.text, 'utf-8'), pages: doc.pages, commit });
+        continue;
+      }
+
+      // Notebooks carry their outputs, so the size limit applies to the converted text
+      const notebook = isNotebook(rel);
+      if (s.size > (notebook ? options.maxDocumentBytes : options.files.maxFileBytes)) {
+        skip(rel, 'too-large');
+        continue;
+      }
+      const data = await fs.readFile(abs);
+      if (isBinary(data)) {
+        skip(rel, 'binary');
+        continue;
+      }
+      let text = data.toString('utf-8');
+      if (notebook) {
+        try {
+          text = notebookToMarkdown(text);
+        } catch {
+          skip(rel, 'invalid-notebook');
+          continue;
+        }
+      }
       const sizeBytes = Buffer.byteLength(text, 'utf-8');
-      const rec: FileRec = {
-        name: rel.replace(/\\/g, '/'),
-        url: repoUrl.replace(/\/$/, '') + '/blob/HEAD/' + rel.replace(/\\/g, '/'),
-        type: codeGlobs.some(g => rel.match(/\.(ts|tsx|js|py|go|rs)$/i)) ? 'code' : 'doc',
-        text,
-        sizeBytes
-      };
-      files.push(rec);
+      if (notebook && sizeBytes > options.files.maxFileBytes) {
+        skip(rel, 'too-large');
+        continue;
+      }
+      const rejected = inspectRepoText(rel, text);
+      if (rejected) {
+        skip(rel, rejected);
+        continue;
+      }
+      files.push({ name, url, type: repoFileType(rel), text, sizeBytes, commit });
     } catch (e: any) {
       log('error', `Failed reading ${rel}: ${e.message || e}`);
     }
   }
+  if (skips.size) {
+    const total = [...skips.values()].reduce((a, b) => a + b, 0);
+    log('info', `Skipped ${total} files (${summarizeSkips(skips)})`);
+  }
+  onProgress(1);
   return files;
 }
 
+/**
+ * Repo jobs: each URL gets its own working directory under reposDir and an equal share of the
+ * 0..70 progress range. A failing repo doesn't stop the others, and on refresh its files from the
+ * previous run are kept; the job only fails when every repo does.
+ */
+async function scrapeRepos(
+  job: Job,
+  reposDir: string,
+  options: DocumentOptions & { files: RepoFileOptions },
+  log: LogFn,
+  reportProgress: ReportProgressFn
+): Promise<{ files: FileRec[]; revisions: RepoRevision[]; failures: RepoFailure[] }> {
+  const urls: string[] = (job as any).urls ?? [];
+  const files: FileRec[] = [];
+  const revisions: RepoRevision[] = [];
+  const failures: RepoFailure[] = [];
+  const namespaces = new Set<string>();
+  const share = 70 / Math.max(1, urls.length);
+
+  for (const [i, repoUrl] of urls.entries()) {
+    const repoLog: LogFn = urls.length > 1 ? (level, message) => log(level, `[repo ${i + 1}/${urls.length}] ${message}`) : log;
+    const progress = (fraction: number) => reportProgress(Math.round(share * (i + fraction)));
+    let remote: RepoRemote | undefined;
+    try {
+      remote = parseRepoUrl(repoUrl);
+      const target = repoTarget(remote, { ref: job.ref, subdir: job.subdir });
+      const dir = path.join(reposDir, String(i + 1));
+      const { ref, commit } = await scrapeRepo(remote, target, dir, repoLog);
+      progress(0.3);
+      // The same repo at two refs needs distinct names
+      let namespace = repoName(remote);
+      if (namespaces.has(namespace)) namespace = `${namespace}@${ref.name}`;
+      namespaces.add(namespace);
+      const repoFiles = await collectRepoFiles(
+        remote,
+        { ref, commit, subdir: target.subdir, namespace },
+        dir,
+        options,
+        repoLog,
+        fraction => progress(0.3 + 0.7 * fraction)
+      );
+      revisions.push({ url: repoUrl, ref: ref.name, refKind: ref.kind, commit, ...(target.subdir ? { subdir: target.subdir } : {}) });
+      files.push(...repoFiles);
+      repoLog('info', `Collected ${repoFiles.length} files from ${namespace}`);
+    } catch (e: any) {
+      const error = e?.message || String(e);
+      failures.push({ url: repoUrl, error });
+      repoLog('error', `Repo scrape failed for ${repoUrl}: ${error}`);
+      const kept = remote && job.previousFiles ? job.previousFiles.filter(f => isRepoFileUrl(remote!, f.url)) : [];
+      if (kept.length) {
+        files.push(...kept);
+        repoLog('info', `Keeping ${kept.length} files from the previous run`);
+      }
+      progress(1);
+    }
+  }
+
+  if (urls.length > 1) {
+    const failed = failures.length ? `; failed: ${failures.map(f => f.url).join(', ')}` : '';
+    log(failures.length ? 'error' : 'info', `Scraped ${urls.length - failures.length} of ${urls.length} repos${failed}`);
+  }
+  if (urls.length && failures.length === urls.length) {
+    // Keep the revisions of the last good run; nothing from this one gets persisted
+    updateJob(job.id, { repoFailures: failures });
+    throw new Error(urls.length > 1 ? `All ${urls.length} repos failed` : failures[0]!.error);
+  }
+  updateJob(job.id, { revisions, repoFailures: failures });
+  return { files, revisions, failures };
+}
+
 /**
  * Unified scrape entrypoint. Persists files and writes raw copies.
  * Calls reportProgress in 0..70 range as it collects.
@@ -212,10 +786,19 @@ export async function scrape(
   const jobCache = path.join(CACHE_ROOT, job.id);
   const rawDir = path.join(jobCache, 'raw');
   const repoDir = path.join(jobCache, 'repo');
+  if (job.previousFiles) {
+    // Refresh runs start from a clean working copy; the previous files live in the DB
+    await fs.rm(rawDir, { recursive: true, force: true });
+    await fs.rm(repoDir, { recursive: true, force: true });
+  }
   ensureDir(jobCache);
   ensureDir(rawDir);
 
   let collected: FileRec[] = [];
+  const docs: DocumentOptions = {
+    documentTypes: job.documentTypes ?? ['pdf', 'docx', 'pptx'],
+    maxDocumentBytes: job.maxDocumentBytes ?? 20 * 1024 * 1024
+  };
 
   if (job.type === 'docs') {
     // Expect job has urls, depth, maxPages from request context; defaulting if absent
@@ -225,27 +808,45 @@ export async function scrape(
     const seeds = (job as any).urls ?? [];
     const depth = (job as any).depth ?? 3;
     const maxPages = (job as any).maxPages ?? 100;
-    collected = await crawlDocs(seeds, depth, maxPages, log, reportProgress);
+    const opts: CrawlOptions = {
+      userAgent: job.userAgent || DEFAULT_USER_AGENT,
+      respectRobots: job.respectRobots ?? true,
+      discovery: job.discovery ?? 'links',
+      concurrency: job.concurrency ?? 4,
+      perHostConcurrency: job.perHostConcurrency ?? 2,
+      perHostRps: job.perHostRps ?? 2,
+      scope: {
+        include: job.include ?? [],
+        exclude: job.exclude ?? [],
+        stayUnderSeedPath: job.stayUnderSeedPath ?? false,
+        allowedOrigins: job.allowedOrigins ?? []
+      },
+      render: job.render ?? 'static',
+      ...(job.waitForSelector ? { waitForSelector: job.waitForSelector } : {}),
+      renderTimeoutMs: job.renderTimeoutMs ?? 30000,
+      ...(job.contentSelector ? { contentSelector: job.contentSelector } : {}),
+      ...docs,
+      previousFiles: job.previousFiles ?? []
+    };
+    if (!opts.respectRobots) log('info', 'robots.txt checks disabled for this job');
+    collected = await crawlDocs(seeds, depth, maxPages, opts, log, reportProgress);
   } else if (job.type === 'repo') {
-    const urls: string[] = (job as any).urls ?? [];
-    const all: FileRec[] = [];
-    for (const repoUrl of urls) {
-      try {
-        await scrapeRepo(repoUrl, repoDir, log);
-        const files = await collectRepoFiles(repoUrl, repoDir, log);
-        all.push(...files);
-        // Progress approximation by file count
-        const p = Math.min(70, Math.round((all.length / Math.max(1, files.length)) * 70));
-        reportProgress(p);
-      } catch (e: any) {
-        log('error', `Repo scrape failed for ${repoUrl}: ${e.message || e}`);
-      }
-    }
-    collected = all;
+    const files: RepoFileOptions = {
+      preset: job.repoPreset ?? 'all',
+      include: job.repoInclude ?? [],
+      exclude: job.repoExclude ?? [],
+      maxFileBytes: job.maxFileBytes ?? 200 * 1024
+    };
+    const result = await scrapeRepos(job, repoDir, { ...docs, files }, log, reportProgress);
+    collected = result.files;
   } else {
     log('error', `Unknown job type: ${(job as any).type}`);
   }
 
+  for (const f of collected) {
+    if (!f.contentHash) f.contentHash = contentHash(f.text ?? '');
+  }
+
   // Write raw copies
   for (let i = 0; i < collected.length; i++) {
     const f = collected[i];
@@ -266,9 +867,15 @@ export async function scrape(
     url: f.url,
     type: f.type,
     sizeBytes: f.sizeBytes,
-    text: f.text
+    text: f.text,
+    etag: f.etag,
+    lastModified: f.lastModified,
+    contentHash: f.contentHash,
+    pages: f.pages,
+    commit: f.commit
   }));
   try {
+    if (job.previousFiles) deleteFiles(job.id);
     saveFiles(job.id, records);
     log('info', `Persisted ${records.length} files`);
   } catch (e: any) {
@@ -0,0 +1,115 @@
+import { gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import { fetch } from 'undici';
+
+/**
+ * Sitemap discovery for docs crawls
+ * - candidates: `Sitemap:` lines from robots.txt plus `${origin}/sitemap.xml`
+ * - follows <sitemapindex> entries recursively, gunzipping `.xml.gz` sitemaps; each is read up to
+ *   50MB uncompressed (the sitemaps.org limit), however it's compressed
+ * - returns page URLs in document order, capped at `limit`; `accept` filters them first (scope,
+ *   duplicates), so URLs the crawl won't take don't use up the cap
+ */
+
+type LogFn = (level: 'info' | 'error' | 'debug', message: string) => void;
+
+const SITEMAP_TIMEOUT_MS = 20000;
+// sitemaps.org caps a sitemap at 50MB uncompressed
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_INDEX_DEPTH = 3;
+
+function isGzip(buf: Buffer): boolean {
+  return buf.length > 2 && buf[0] === 0x1f && buf[1] === 0x8b;
+}
+
+async function fetchSitemap(url: string, userAgent: string, log: LogFn): Promise<string | null> {
+  const ac = new AbortController();
+  const id = setTimeout(() => ac.abort(), SITEMAP_TIMEOUT_MS);
+  const tooLarge = () => {
+    log('error', `Sitemap ${url} is larger than ${MAX_SITEMAP_BYTES} bytes uncompressed; skipped`);
+    return null;
+  };
+  try {
+    const res = await fetch(url, { signal: ac.signal, headers: { 'user-agent': userAgent } } as any);
+    if (!res.ok || !res.body) return null;
+    // Capped while reading: fetch has already undone any Content-Encoding, so a small response
+    // on the wire can expand to anything
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for await (const chunk of res.body) {
+      total += chunk.byteLength;
+      if (total > MAX_SITEMAP_BYTES) return tooLarge(); // leaving the loop cancels the stream
+      chunks.push(chunk);
+    }
+    const buf = Buffer.concat(chunks);
+    // Servers often serve .xml.gz as application/octet-stream without Content-Encoding
+    if (!isGzip(buf)) return buf.toString('utf-8');
+    try {
+      return gunzipSync(buf, { maxOutputLength: MAX_SITEMAP_BYTES }).toString('utf-8');
+    } catch (e: any) {
+      if (e?.code === 'ERR_BUFFER_TOO_LARGE') return tooLarge();
+      throw e;
+    }
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(id);
+  }
+}
+
+export function parseSitemap(xml: string): { isIndex: boolean; locs: string[] } {
+  const $ = cheerio.load(xml, { xml: true });
+  const isIndex = $('sitemapindex').length > 0;
+  const locs: string[] = [];
+  $(isIndex ? 'sitemap > loc' : 'url > loc').each((_, el) => {
+    const loc = $(el).text().trim();
+    if (loc) locs.push(loc);
+  });
+  return { isIndex, locs };
+}
+
+export async function discoverSitemapUrls(
+  origin: string,
+  robotsSitemaps: string[],
+  userAgent: string,
+  limit: number,
+  log: LogFn,
+  accept: (loc: string) => boolean = () => true
+): Promise<string[]> {
+  const candidates = [...robotsSitemaps, `${origin}/sitemap.xml`];
+  const seen = new Set<string>();
+  const urls: string[] = [];
+
+  const visit = async (sitemapUrl: string, level: number): Promise<void> => {
+    if (urls.length >= limit || seen.has(sitemapUrl)) return;
+    seen.add(sitemapUrl);
+    const xml = await fetchSitemap(sitemapUrl, userAgent, log);
+    if (!xml) {
+      log('debug', `No sitemap at ${sitemapUrl}`);
+      return;
+    }
+    const { isIndex, locs } = parseSitemap(xml);
+    if (isIndex) {
+      if (level >= MAX_INDEX_DEPTH) {
+        log('error', `Sitemap index nesting too deep at ${sitemapUrl}`);
+        return;
+      }
+      for (const loc of locs) {
+        if (urls.length >= limit) break;
+        await visit(loc, level + 1);
+      }
+      return;
+    }
+    log('info', `Sitemap ${sitemapUrl} lists ${locs.length} URLs`);
+    for (const loc of locs) {
+      if (urls.length >= limit) break;
+      if (accept(loc)) urls.push(loc);
+    }
+  };
+
+  for (const c of candidates) {
+    if (urls.length >= limit) break;
+    await visit(c, 0);
+  }
+  return urls;
+}
@@ -0,0 +1,126 @@
+import db from './db';
+import type { Distance, VectorHit, VectorPoint } from './vectorStore';
+
+/**
+ * Embedded backend of the vector store (VECTOR_STORE=sqlite), in the app's SQLite database
+ * - vectors are float32 blobs; Cosine vectors are normalized on the way in, as Qdrant does, so
+ *   their score is a dot product
+ * - search is exact: every vector of the collection is scored, keeping the best `limit`
+ * - scores match Qdrant's: cosine similarity, dot product, or Euclidean distance (lower is better)
+ */
+
+type CollectionRow = { name: string; size: number; distance: Distance };
+
+function getCollection(name: string): CollectionRow | undefined {
+  return db.prepare('SELECT * FROM vector_collections WHERE name = ?').get(name) as CollectionRow | undefined;
+}
+
+function requireCollection(name: string): CollectionRow {
+  const collection = getCollection(name);
+  if (!collection) throw new Error(`Vector collection ${name} doesn't exist`);
+  return collection;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm ? vector.map(x => x / norm) : vector;
+}
+
+function toBlob(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copy: the blob's offset in its backing buffer needn't be 4-byte aligned
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
+
+function scorer(distance: Distance, query: number[]): (v: Float32Array) => number {
+  if (distance === 'Euclid') {
+    return v => {
+      let sum = 0;
+      for (let i = 0; i < v.length; i++) sum += (v[i] - query[i]) ** 2;
+      return Math.sqrt(sum);
+    };
+  }
+  return v => {
+    let dot = 0;
+    for (let i = 0; i < v.length; i++) dot += v[i] * query[i];
+    return dot;
+  };
+}
+
+export async function getCollectionVectors(name: string): Promise<{ size: number; distance: string } | null> {
+  const collection = getCollection(name);
+  return collection ? { size: collection.size, distance: collection.distance } : null;
+}
+
+export async function createCollection(name: string, size: number, distance: Distance): Promise<void> {
+  db.prepare('INSERT INTO vector_collections (name, size, distance) VALUES (?, ?, ?)').run(name, size, distance);
+}
+
+export async function upsertPoints(name: string, points: VectorPoint[]): Promise<void> {
+  const collection = requireCollection(name);
+  const insert = db.prepare(`
+    INSERT INTO vector_points (collection, id, url, vector, payload)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(collection, id) DO UPDATE SET
+      url = excluded.url,
+      vector = excluded.vector,
+      payload = excluded.payload
+  `);
+  db.transaction(() => {
+    for (const p of points) {
+      if (p.vector.length !== collection.size) {
+        throw new Error(`Point ${p.id} has ${p.vector.length} dimensions; collection ${name} stores ${collection.size}`);
+      }
+      const vector = collection.distance === 'Cosine' ? normalize(p.vector) : p.vector;
+      insert.run(name, p.id, p.payload?.url ?? '', toBlob(vector), JSON.stringify(p.payload ?? {}));
+    }
+  })();
+}
+
+export async function deletePointsByUrl(name: string, urls: string[]): Promise<void> {
+  const remove = db.prepare('DELETE FROM vector_points WHERE collection = ? AND url = ?');
+  db.transaction(() => {
+    for (const url of urls) remove.run(name, url);
+  })();
+}
+
+export async function search(
+  name: string,
+  vector: number[],
+  limit: number = 8,
+  score_threshold?: number
+): Promise<VectorHit[]> {
+  const collection = requireCollection(name);
+  if (vector.length !== collection.size) {
+    throw new Error(`Query vector has ${vector.length} dimensions; collection ${name} stores ${collection.size}`);
+  }
+  if (limit <= 0) return [];
+  const lowerIsBetter = collection.distance === 'Euclid';
+  const better = (a: number, b: number) => (lowerIsBetter ? a < b : a > b);
+  const score = scorer(collection.distance, collection.distance === 'Cosine' ? normalize(vector) : vector);
+
+  // Best `limit` so far, best first
+  const top: Array<{ id: string; score: number }> = [];
+  const rows = db.prepare('SELECT id, vector FROM vector_points WHERE collection = ?').iterate(name) as Iterable<{
+    id: string;
+    vector: Buffer;
+  }>;
+  for (const row of rows) {
+    const s = score(fromBlob(row.vector));
+    if (score_threshold !== undefined && (lowerIsBetter ? s > score_threshold : s < score_threshold)) continue;
+    if (top.length === limit && !better(s, top[top.length - 1].score)) continue;
+    let i = top.length;
+    while (i > 0 && better(s, top[i - 1].score)) i--;
+    top.splice(i, 0, { id: row.id, score: s });
+    if (top.length > limit) top.pop();
+  }
+
+  const payload = db.prepare('SELECT payload FROM vector_points WHERE collection = ? AND id = ?');
+  return top.map(hit => ({
+    ...hit,
+    payload: JSON.parse((payload.get(name, hit.id) as { payload: string }).payload)
+  }));
+}
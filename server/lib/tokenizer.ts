@@ -0,0 +1,47 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import { estimateTokens, TokenCounter } from './chunk';
+
+/**
+ * Token counting for chunk sizing
+ * - 'cl100k' / 'o200k': BPE vocabularies bundled with js-tiktoken, loaded on first use
+ * - 'estimate': ~4 characters per token, no vocabulary; undercounts code and CJK text badly
+ * - embedding models have vocabularies of their own, so counts are close rather than exact;
+ *   rag.ts keeps headroom below the model's limit for that
+ */
+
+export type TokenizerKind = 'cl100k' | 'o200k' | 'estimate';
+
+// BPE merging is quadratic in the length of a word, so long unbroken runs (base64, minified code)
+// are counted in slices; the count differs by a token or so per slice
+const LONG_RUN = /\S{256,}/g;
+const RUN_SLICE = 128;
+
+const encoders = new Map<Exclude<TokenizerKind, 'estimate'>, Promise<Tiktoken>>();
+
+function encoder(kind: Exclude<TokenizerKind, 'estimate'>): Promise<Tiktoken> {
+  let pending = encoders.get(kind);
+  if (!pending) {
+    pending = (kind === 'o200k' ? import('js-tiktoken/ranks/o200k_base') : import('js-tiktoken/ranks/cl100k_base'))
+      .then(ranks => new Tiktoken(ranks.default));
+    // A failed load shouldn't stick for the life of the process
+    pending.catch(() => encoders.delete(kind));
+    encoders.set(kind, pending);
+  }
+  return pending;
+}
+
+export async function tokenCounter(kind: TokenizerKind): Promise<TokenCounter> {
+  if (kind === 'estimate') return estimateTokens;
+  const enc = await encoder(kind);
+  // Special-token strings in scraped text (<|endoftext|>) are counted as plain text, not rejected
+  const encode = (text: string) => enc.encode(text, [], []).length;
+  return (text: string) => {
+    if (!text) return 0;
+    let runs = 0;
+    const rest = text.replace(LONG_RUN, run => {
+      for (let i = 0; i < run.length; i += RUN_SLICE) runs += encode(run.slice(i, i + RUN_SLICE));
+      return ' ';
+    });
+    return encode(rest) + runs;
+  };
+}
@@ -0,0 +1,82 @@
+import * as qdrant from './qdrant';
+import * as sqliteVectors from './sqliteVectors';
+
+/**
+ * Vector storage for job chunks
+ * - 'qdrant' (default): a Qdrant server at QDRANT_URL
+ * - 'sqlite': an embedded index in the app's SQLite database, searched by brute force; needs no
+ *   other service, fine for laptops, CI and collections up to some hundred thousand chunks
+ * - VECTOR_STORE picks one for the whole server; collections aren't moved between them
+ * - point ids are UUIDs, payloads are JSON objects with at least `url`; search returns the best
+ *   `limit` hits by score, highest first (for 'Euclid', the smallest distance first)
+ */
+
+export type Distance = 'Cosine' | 'Euclid' | 'Dot';
+
+export type VectorPoint = { id: string; vector: number[]; payload: any };
+
+export type VectorHit = { id: string; score: number; payload: any };
+
+export type VectorStoreName = 'qdrant' | 'sqlite';
+
+// What a backend implements; ensureCollection below adds the schema check on top
+export type VectorStore = {
+  /** Vector size and distance of an existing collection, or null when it doesn't exist */
+  getCollectionVectors(name: string): Promise<{ size: number; distance: string } | null>;
+  createCollection(name: string, size: number, distance: Distance): Promise<void>;
+  /** Insert points, replacing those with the same id */
+  upsertPoints(name: string, points: VectorPoint[]): Promise<void>;
+  /** Delete every point whose payload `url` is one of `urls` */
+  deletePointsByUrl(name: string, urls: string[]): Promise<void>;
+  search(name: string, vector: number[], limit?: number, score_threshold?: number): Promise<VectorHit[]>;
+};
+
+const VECTOR_STORE = (process.env.VECTOR_STORE || 'qdrant') as VectorStoreName;
+const RAG_COLLECTION_PREFIX = process.env.RAG_COLLECTION_PREFIX || 'job_';
+
+const STORES: Record<VectorStoreName, VectorStore> = { qdrant, sqlite: sqliteVectors };
+if (!(VECTOR_STORE in STORES)) {
+  throw new Error(`VECTOR_STORE must be one of ${Object.keys(STORES).join(', ')} (got "${VECTOR_STORE}")`);
+}
+
+const store = STORES[VECTOR_STORE];
+
+export function collectionName(jobId: string): string {
+  return `${RAG_COLLECTION_PREFIX}${jobId}`;
+}
+
+export async function collectionExists(name: string): Promise<boolean> {
+  return (await store.getCollectionVectors(name)) !== null;
+}
+
+/**
+ * Create the collection, or check that the existing one stores vectors of this size and distance.
+ * Returns true when it was created.
+ */
+export async function ensureCollection(name: string, size: number, distance: Distance = 'Cosine'): Promise<boolean> {
+  const existing = await store.getCollectionVectors(name);
+  if (existing) {
+    if (existing.size !== size || existing.distance !== distance) {
+      throw new Error(
+        `Collection ${name} stores ${existing.size}-dimension ${existing.distance} vectors, but the embedding model produces ` +
+          `${size}-dimension ${distance} vectors; delete the collection or embed with the model it was built with`
+      );
+    }
+    return false;
+  }
+  await store.createCollection(name, size, distance);
+  return true;
+}
+
+export function upsertPoints(name: string, points: VectorPoint[]): Promise<void> {
+  return store.upsertPoints(name, points);
+}
+
+export function deletePointsByUrl(name: string, urls: string[]): Promise<void> {
+  if (!urls.length) return Promise.resolve();
+  return store.deletePointsByUrl(name, urls);
+}
+
+export function search(name: string, vector: number[], limit: number = 8, score_threshold?: number): Promise<VectorHit[]> {
+  return store.search(name, vector, limit, score_threshold);
+}
@@ -0,0 +1,78 @@
+import express from 'express';
+import { CreateCredentialRequest, UpdateCredentialRequest } from '../types';
+import {
+  getCredentialSummary,
+  listCredentialSummaries,
+  normalizeHost,
+  removeCredential,
+  saveCredential,
+} from '../lib/credentials';
+
+const router = express.Router();
+
+function validationError(res: express.Response, details: unknown) {
+  return res.status(400).json({
+    error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details },
+  });
+}
+
+// Resolves :host to the stored key, or answers 404 / 400
+function findHost(req: express.Request, res: express.Response): string | null {
+  let host: string;
+  try {
+    host = normalizeHost(req.params.host);
+  } catch (e: any) {
+    res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: e.message } });
+    return null;
+  }
+  if (!getCredentialSummary(host)) {
+    res.status(404).json({ error: { code: 'NOT_FOUND', message: 'No credentials stored for this host' } });
+    return null;
+  }
+  return host;
+}
+
+// GET /api/credentials
+// Hosts and usernames only; tokens are never returned
+router.get('/credentials', (req, res) => {
+  res.json({ credentials: listCredentialSummaries() });
+});
+
+// POST /api/credentials
+router.post('/credentials', (req, res) => {
+  const parsed = CreateCredentialRequest.safeParse(req.body);
+  if (!parsed.success) return validationError(res, parsed.error.flatten());
+
+  let host: string;
+  try {
+    host = normalizeHost(parsed.data.host);
+  } catch (e: any) {
+    return validationError(res, { fieldErrors: { host: [e.message] } });
+  }
+  if (getCredentialSummary(host)) {
+    return res.status(409).json({ error: { code: 'ALREADY_EXISTS', message: `Credentials for ${host} already exist` } });
+  }
+  const credential = saveCredential(host, { username: parsed.data.username, token: parsed.data.token });
+  res.status(201).json({ credential });
+});
+
+// PATCH /api/credentials/:host
+// Omitting the token keeps the stored one
+router.patch('/credentials/:host', (req, res) => {
+  const host = findHost(req, res);
+  if (!host) return;
+  const parsed = UpdateCredentialRequest.safeParse(req.body);
+  if (!parsed.success) return validationError(res, parsed.error.flatten());
+
+  res.json({ credential: saveCredential(host, parsed.data) });
+});
+
+// DELETE /api/credentials/:host
+router.delete('/credentials/:host', (req, res) => {
+  const host = findHost(req, res);
+  if (!host) return;
+  removeCredential(host);
+  res.status(204).end();
+});
+
+export default router;
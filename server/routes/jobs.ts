@@ -1,9 +1,7 @@
 import express from 'express';
-import { randomUUID } from 'crypto';
-import { CreateJobRequest, Job } from '../types';
+import { CreateJobRequest } from '../types';
 import {
   appendLog,
-  createJob,
   getFiles,
   getJob,
   getLogs,
@@ -12,8 +10,8 @@ import {
   updateJob,
 } from '../lib/db';
 import { enqueue } from '../lib/queue';
-import { scrape } from '../lib/scraper';
-import { buildRag, listExportFiles } from '../lib/rag';
+import { listExportFiles } from '../lib/rag';
+import { runJob, startJob } from '../lib/pipeline';
 import path from 'path';
 import { existsSync } from 'fs';
 import { zip } from 'zip-a-folder';
@@ -33,74 +31,48 @@ router.post('/jobs', async (req, res) => {
     });
   }
 
-  const { urls, type, depth, maxPages, format } = parsed.data;
-  const id = randomUUID();
-  const createdAt = new Date().toISOString();
-
   try {
-    createJob({ id, type, format, createdAt });
-    appendLog(id, 'info', `Job created: ${type}, ${format}`);
-
-    // Enqueue background work
-    enqueue(id, async () => {
-      try {
-        updateJob(id, { status: 'running', progress: 0 });
-        appendLog(id, 'info', 'Job started');
-        appendLog(id, 'info', 'Starting scrape…');
-
-        // Scrape via unified pipeline (persists files and writes raw copies)
-        const files = await scrape(
-          { id, type, status: 'running', createdAt, format, urls, depth, maxPages } as any as Job,
-          (level, message) => appendLog(id, level, message),
-          (p) => {
-            const scaled = Math.max(0, Math.min(70, Math.round(p)));
-            updateJob(id, { progress: scaled });
-          }
-        );
-        appendLog(id, 'info', `Collected ${files.length} files`);
-        updateJob(id, { progress: 70 });
-
-        // Build RAG artifacts (stubbed)
-        appendLog(id, 'info', 'Building RAG…');
-        const job: Job = {
-          id,
-          type,
-          status: 'running',
-          createdAt,
-          format,
-          progress: 70,
-          files,
-        };
-        await buildRag(
-          job,
-          files,
-          (level, message) => appendLog(id, level, message),
-          (p) => {
-            const clamped = Math.max(70, Math.min(99, Math.round(p)));
-            updateJob(id, { progress: clamped });
-          }
-        );
-        appendLog(id, 'info', 'RAG build completed');
-
-        // Finalize
-        updateJob(id, { status: 'completed', progress: 100 });
-        appendLog(id, 'info', 'Job completed');
-      } catch (err: any) {
-        appendLog(id, 'error', err?.message ?? 'Unknown error');
-        updateJob(id, { status: 'failed', error: err?.message ?? 'Unknown error' });
-      }
-    });
-
+    const id = startJob(parsed.data);
     return res.status(201).json({ jobId: id });
   } catch (err: any) {
-    appendLog(id, 'error', err?.message ?? 'Unknown error on create');
-    updateJob(id, { status: 'failed', error: err?.message ?? 'Unknown error on create' });
     return res.status(500).json({
       error: { code: 'CREATE_FAILED', message: 'Failed to create job' },
     });
   }
 });
 
+// POST /api/jobs/:id/refresh
+// Re-runs a finished job in place with conditional requests, re-embedding only what changed
+router.post('/jobs/:id/refresh', (req, res) => {
+  const id = req.params.id;
+  const job = getJob(id);
+  if (!job) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Job not found' } });
+  }
+  if (job.status === 'queued' || job.status === 'running') {
+    return res.status(409).json({ error: { code: 'JOB_BUSY', message: 'Job is already queued or running' } });
+  }
+  const stored = job.request ? CreateJobRequest.safeParse(JSON.parse(job.request)) : null;
+  if (!stored?.success) {
+    return res.status(409).json({
+      error: { code: 'NOT_REFRESHABLE', message: 'Job was created before refresh support and has no stored request' },
+    });
+  }
+
+  const previousFiles = getFiles(id);
+
+  updateJob(id, { status: 'queued', progress: 0, error: null });
+  appendLog(id, 'info', `Refresh requested (${previousFiles.length} files from previous run)`);
+  const reembedAll = job.status !== 'completed';
+  // Keep embedding with the model the collection was built with, even for requests stored without one
+  const request = job.embeddingModel
+    ? { ...stored.data, embeddingProvider: job.embeddingProvider, embeddingModel: job.embeddingModel }
+    : stored.data;
+  enqueue(id, () => runJob(id, request, job.createdAt, { previousFiles, reembedAll }));
+
+  return res.status(202).json({ jobId: id });
+});
+
 // GET /api/jobs
 router.get('/jobs', (req, res) => {
   const jobs = listJobs();
@@ -119,6 +91,11 @@ router.get('/jobs/:id/status', (req, res) => {
     status: job.status,
     progress: job.progress ?? 0,
     logs,
+    ...(job.revisions ? { revisions: JSON.parse(job.revisions) } : {}),
+    ...(job.repoFailures ? { repoFailures: JSON.parse(job.repoFailures) } : {}),
+    ...(job.embeddingModel
+      ? { embedding: { provider: job.embeddingProvider, model: job.embeddingModel, dimension: job.embeddingDimension } }
+      : {}),
   });
 });
 
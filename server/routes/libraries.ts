@@ -0,0 +1,61 @@
+import express from 'express';
+import { PutLibraryRequest } from '../types';
+import { deleteLibrary, getJob, getLibrary, listLibraries, saveLibrary } from '../lib/db';
+
+const router = express.Router();
+
+// DB row -> API shape
+function toLibrary(row: any) {
+  return {
+    name: row.name,
+    jobIds: JSON.parse(row.jobIds) as string[],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+// GET /api/libraries
+router.get('/libraries', (req, res) => {
+  res.json({ libraries: listLibraries().map(toLibrary) });
+});
+
+// GET /api/libraries/:name
+router.get('/libraries/:name', (req, res) => {
+  const row = getLibrary(req.params.name);
+  if (!row) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Library not found' } });
+  }
+  res.json({ library: toLibrary(row) });
+});
+
+// PUT /api/libraries/:name { jobIds }
+// Creates the library or replaces its jobs
+router.put('/libraries/:name', (req, res) => {
+  const parsed = PutLibraryRequest.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.flatten() },
+    });
+  }
+  const jobIds = [...new Set(parsed.data.jobIds)];
+  const unknown = jobIds.filter(id => !getJob(id));
+  if (unknown.length) {
+    return res.status(400).json({
+      error: { code: 'VALIDATION_ERROR', message: `Unknown job ids: ${unknown.join(', ')}` },
+    });
+  }
+  const existed = !!getLibrary(req.params.name);
+  saveLibrary({ name: req.params.name, jobIds, now: new Date().toISOString() });
+  res.status(existed ? 200 : 201).json({ library: toLibrary(getLibrary(req.params.name)) });
+});
+
+// DELETE /api/libraries/:name
+// Only the grouping goes; the jobs and their collections stay
+router.delete('/libraries/:name', (req, res) => {
+  if (!deleteLibrary(req.params.name).changes) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Library not found' } });
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+import { CreateScheduleRequest, UpdateScheduleRequest } from '../types';
+import {
+  createSchedule,
+  deleteSchedule,
+  getJob,
+  getSchedule,
+  listScheduleJobs,
+  listSchedules,
+  updateSchedule,
+} from '../lib/db';
+import { computeNextRunAt, triggerSchedule } from '../lib/scheduler';
+
+const router = express.Router();
+
+// DB row -> API shape, with the schedule's most recent jobs
+function toSchedule(row: any) {
+  const lastJob = row.lastJobId ? getJob(row.lastJobId) : null;
+  return {
+    id: row.id,
+    name: row.name,
+    cron: row.cron,
+    enabled: !!row.enabled,
+    missedRunPolicy: row.missedRunPolicy,
+    job: JSON.parse(row.request),
+    createdAt: row.createdAt,
+    nextRunAt: row.nextRunAt,
+    lastRunAt: row.lastRunAt,
+    lastJob: lastJob ? { id: lastJob.id, status: lastJob.status, progress: lastJob.progress ?? 0 } : null,
+    recentJobs: listScheduleJobs(row.id, 5),
+  };
+}
+
+function validationError(res: express.Response, details: unknown) {
+  return res.status(400).json({
+    error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details },
+  });
+}
+
+// GET /api/schedules
+router.get('/schedules', (req, res) => {
+  res.json({ schedules: listSchedules().map(toSchedule) });
+});
+
+// POST /api/schedules
+router.post('/schedules', (req, res) => {
+  const parsed = CreateScheduleRequest.safeParse(req.body);
+  if (!parsed.success) return validationError(res, parsed.error.flatten());
+
+  const { name, cron, enabled, missedRunPolicy, job } = parsed.data;
+  const id = randomUUID();
+  createSchedule({
+    id,
+    name,
+    cron,
+    request: job,
+    enabled,
+    missedRunPolicy,
+    createdAt: new Date().toISOString(),
+    nextRunAt: enabled ? computeNextRunAt(cron) : null,
+  });
+  res.status(201).json({ schedule: toSchedule(getSchedule(id)) });
+});
+
+// GET /api/schedules/:id
+router.get('/schedules/:id', (req, res) => {
+  const row = getSchedule(req.params.id);
+  if (!row) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Schedule not found' } });
+  }
+  res.json({ schedule: { ...toSchedule(row), recentJobs: listScheduleJobs(row.id, 50) } });
+});
+
+// PATCH /api/schedules/:id
+router.patch('/schedules/:id', (req, res) => {
+  const row = getSchedule(req.params.id);
+  if (!row) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Schedule not found' } });
+  }
+  const parsed = UpdateScheduleRequest.safeParse(req.body);
+  if (!parsed.success) return validationError(res, parsed.error.flatten());
+
+  const { job, ...updates } = parsed.data;
+  const cron = updates.cron ?? row.cron;
+  const enabled = updates.enabled ?? !!row.enabled;
+  // Re-plan from now when the timing changes or the schedule is switched back on
+  const replan = updates.cron !== undefined || (updates.enabled !== undefined && updates.enabled !== !!row.enabled);
+  updateSchedule(row.id, {
+    ...updates,
+    ...(job ? { request: job } : {}),
+    ...(replan ? { nextRunAt: enabled ? computeNextRunAt(cron) : null } : {}),
+  });
+  res.json({ schedule: toSchedule(getSchedule(row.id)) });
+});
+
+// DELETE /api/schedules/:id
+// Jobs created by the schedule are kept
+router.delete('/schedules/:id', (req, res) => {
+  const row = getSchedule(req.params.id);
+  if (!row) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Schedule not found' } });
+  }
+  deleteSchedule(row.id);
+  res.status(204).end();
+});
+
+// POST /api/schedules/:id/run
+// Starts a job now without moving the next scheduled run
+router.post('/schedules/:id/run', (req, res) => {
+  const row = getSchedule(req.params.id);
+  if (!row) {
+    return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'Schedule not found' } });
+  }
+  try {
+    const jobId = triggerSchedule(row.id);
+    return res.status(201).json({ jobId });
+  } catch (err: any) {
+    return res.status(500).json({
+      error: { code: 'CREATE_FAILED', message: err?.message ?? 'Failed to create job' },
+    });
+  }
+});
+
+export default router;
@@ -1,41 +1,160 @@
 import express from 'express';
-import { embed } from '../lib/rag';
-import { collectionName, search as qdrantSearch } from '../lib/qdrant';
-import { listJobs } from '../lib/db';
+import { embeddingProvider, EmbeddingProviderName, resolveEmbeddingConfig } from '../lib/embeddings';
+import { FusedHit, fuseRankings, keywordSearch, RankedHit, SearchMode } from '../lib/hybridSearch';
+import { collectionExists, collectionName, search as vectorSearch } from '../lib/vectorStore';
+import { getCollectionMeta, getJob, getLibrary } from '../lib/db';
+import { SearchRequest } from '../types';
 
 const router = express.Router();
 
-// POST /api/search { query, jobId?, limit=8 }
+// Hybrid search fuses deeper rankings than it returns, so a hit ranked low by one retriever can
+// still make it in on the other's strength
+const HYBRID_DEPTH_FACTOR = 3;
+const HYBRID_MIN_DEPTH = 20;
+
+// One job's collection, with what its queries must be embedded by
+type Target = {
+  jobId: string;
+  cname: string;
+  source: { type: string; urls: string[] };
+  embedding: { provider: EmbeddingProviderName; model: string };
+  dimension?: number;
+  vector?: number[];
+};
+
+type JobHit = FusedHit & { jobId: string; source: Target['source'] };
+
+function toResponseHit(h: JobHit) {
+  const p = h.payload ?? {};
+  return {
+    score: h.score,
+    jobId: h.jobId,
+    source: h.source,
+    matchedBy: h.matchedBy,
+    scores: h.scores,
+    name: p.name ?? p.fileName ?? '',
+    url: p.url ?? '',
+    ...(p.page ? { page: p.page } : {}),
+    ...(p.headingPath ? { headingPath: p.headingPath } : {}),
+    ...(p.commit ? { commit: p.commit } : {}),
+    ...(p.startLine
+      ? {
+          symbol: p.symbol,
+          symbolKind: p.symbolKind,
+          startLine: p.startLine,
+          endLine: p.endLine,
+          lineUrl: p.lineUrl
+        }
+      : {}),
+    // Keyword matches show the matched passage; [start, end) offsets of matched terms in it
+    text_snippet: h.snippet?.text ?? (p.text || '').slice(0, 300),
+    highlights: h.snippet?.highlights ?? []
+  };
+}
+
+/**
+ * One collection's hits, best `k` first. Keyword and hybrid scores are RRF-fused ranks, so they
+ * merge across collections; vector hits keep their similarity scores. Raw per-retriever scores
+ * are in `scores` either way.
+ */
+async function searchTarget(t: Target, query: string, mode: SearchMode, k: number): Promise<JobHit[]> {
+  const depth = mode === 'hybrid' ? Math.max(k * HYBRID_DEPTH_FACTOR, HYBRID_MIN_DEPTH) : k;
+  const [vectorHits, keywordHits] = await Promise.all([
+    t.vector ? vectorSearch(t.cname, t.vector, depth) : Promise.resolve([] as RankedHit[]),
+    mode === 'vector' ? Promise.resolve([] as RankedHit[]) : Promise.resolve().then(() => keywordSearch(t.cname, query, depth))
+  ]);
+  // BM25 scores depend on their collection's statistics, so only keyword ranks compare across jobs
+  const ranked: FusedHit[] =
+    mode === 'vector'
+      ? vectorHits.map(h => ({ ...h, id: String(h.id), matchedBy: [mode], scores: { vector: h.score } }))
+      : fuseRankings(mode === 'hybrid' ? { vector: vectorHits, keyword: keywordHits } : { keyword: keywordHits }, k);
+  return ranked.map(h => ({ ...h, jobId: t.jobId, source: t.source }));
+}
+
+// POST /api/search { query, jobId | jobIds | library, limit=8, mode='hybrid' }
+// Each job's collection is searched on its own and the hits merged by score. Scores of different
+// embedding models (vector mode) aren't strictly comparable; keyword and hybrid scores are, being rank-based.
 router.post('/search', async (req, res) => {
-  const { query, jobId, limit } = req.body || {};
-  if (typeof query !== 'string' || !query.trim()) {
-    return res.status(400).json({ error: { code: 'VALIDATION_ERROR', message: 'query is required' } });
+  const parsed = SearchRequest.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.flatten() }
+    });
   }
+  const { query, jobId, jobIds, library, limit, mode } = parsed.data;
 
-  // Determine target job
-  let targetJobId: string | undefined = typeof jobId === 'string' && jobId ? jobId : undefined;
-  if (!targetJobId) {
-    const jobs = listJobs();
-    if (!jobs.length) {
-      return res.status(404).json({ error: { code: 'NOT_FOUND', message: 'No jobs available for search' } });
+  let ids: string[];
+  if (library !== undefined) {
+    const row = getLibrary(library) as { jobIds: string } | undefined;
+    if (!row) {
+      return res.status(404).json({ error: { code: 'NOT_FOUND', message: `Library ${library} not found` } });
     }
-    targetJobId = jobs[0].id;
+    ids = JSON.parse(row.jobIds);
+  } else {
+    ids = jobIds ?? [jobId!];
   }
+  ids = [...new Set(ids)];
 
   try {
-    const vector = await embed(query);
-    const cname = collectionName(targetJobId);
-    const results = await qdrantSearch(cname, vector, typeof limit === 'number' ? limit : 8);
-    const hits = results.map((r: any) => ({
-      score: r.score ?? r?.result?.score ?? 0,
-      name: r.payload?.name ?? r.payload?.fileName ?? '',
-      url: r.payload?.url ?? '',
-      text_snippet: (r.payload?.text || '').slice(0, 300)
-    }));
-    return res.json({ hits });
+    const targets: Target[] = [];
+    for (const id of ids) {
+      const job = getJob(id) as
+        | { type: string; request?: string | null; embeddingProvider?: EmbeddingProviderName; embeddingModel?: string }
+        | undefined;
+      if (!job) {
+        return res.status(404).json({ error: { code: 'NOT_FOUND', message: `Job ${id} not found` } });
+      }
+      const cname = collectionName(id);
+      if (!(await collectionExists(cname))) {
+        return res.status(404).json({
+          error: {
+            code: 'NO_COLLECTION',
+            message: `Job ${id} has no search collection; only jobs that have built RAG output can be searched`
+          }
+        });
+      }
+      // Queries must be embedded by the model the collection's vectors came from. Collections record
+      // it; older ones fall back to the job's choice, and jobs from before that to the environment's
+      const meta = getCollectionMeta(cname) as
+        | { provider: EmbeddingProviderName; model: string; dimension: number }
+        | undefined;
+      const request = job.request ? JSON.parse(job.request) : {};
+      targets.push({
+        jobId: id,
+        cname,
+        source: { type: job.type, urls: request.urls ?? [] },
+        embedding: meta ? { provider: meta.provider, model: meta.model } : resolveEmbeddingConfig(job),
+        dimension: meta?.dimension
+      });
+    }
+
+    if (mode !== 'keyword') {
+      // Embed once per model, however many collections share it
+      const vectors = new Map<string, number[]>();
+      for (const t of targets) {
+        const key = `${t.embedding.provider}:${t.embedding.model}`;
+        if (!vectors.has(key)) vectors.set(key, (await embeddingProvider(t.embedding).embed([query]))[0]);
+        t.vector = vectors.get(key)!;
+        if (t.dimension && t.vector.length !== t.dimension) {
+          return res.status(409).json({
+            error: {
+              code: 'EMBEDDING_MISMATCH',
+              message: `${t.embedding.model} now returns ${t.vector.length}-dimension vectors, but ${t.cname} stores ${t.dimension}-dimension ones; rebuild job ${t.jobId}`
+            }
+          });
+        }
+      }
+    }
+
+    const perJob = await Promise.all(targets.map(t => searchTarget(t, query, mode, limit)));
+    const hits = perJob
+      .flat()
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    return res.json({ mode, jobIds: ids, hits: hits.map(toResponseHit) });
   } catch (e: any) {
     return res.status(500).json({ error: { code: 'SEARCH_FAILED', message: e?.message || 'Search failed' } });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
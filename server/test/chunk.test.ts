@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { chunkTextToRag, estimateTokens } from '../lib/chunk';
+
+// Sentences of exactly `tokens` estimated tokens (4 characters each)
+const sentence = (n: number, tokens: number) => `S${n} ${'x'.repeat(tokens * 4 - 5 - String(n).length)}.`;
+
+describe('chunkTextToRag', () => {
+  it('carries trailing sentences of a chunk into the next one as overlap', () => {
+    const sentences = Array.from({ length: 6 }, (_, n) => sentence(n, 30));
+    expect(sentences.every(s => estimateTokens(s) === 30)).toBe(true);
+    const chunks = chunkTextToRag(sentences.join(' '), 'doc', 'u', 100, 30);
+    expect(chunks.map(c => c.text)).toEqual([
+      sentences.slice(0, 3).join(' '),
+      sentences.slice(2, 5).join(' '),
+      sentences.slice(4, 6).join(' ')
+    ]);
+    expect(chunks.map(c => c.id)).toEqual(['doc:0', 'doc:1', 'doc:2']);
+  });
+
+  it('moves on when a chunk holds a single sentence', () => {
+    // Each sentence fills a 64-token chunk on its own; the overlap would step back onto it
+    const sentences = Array.from({ length: 4 }, (_, n) => sentence(n, 37));
+    expect(chunkTextToRag(sentences.join(' '), 'doc', 'u', 64, 32).map(c => c.text)).toEqual(sentences);
+
+    const long = [sentence(0, 1500), sentence(1, 1500)];
+    expect(chunkTextToRag(long.join(' '), 'doc', 'u').map(c => c.text)).toEqual(long);
+  });
+
+  it('moves on when the overlap covers the whole chunk', () => {
+    const sentences = Array.from({ length: 5 }, (_, n) => sentence(n, 30));
+    const chunks = chunkTextToRag(sentences.join(' '), 'doc', 'u', 100, 100);
+    const starts = chunks.map(c => sentences.findIndex(s => c.text.startsWith(s)));
+    expect(starts).toEqual([0, 1, 2]);
+    expect(chunks.at(-1)!.text.endsWith(sentences[4]!)).toBe(true);
+  });
+});
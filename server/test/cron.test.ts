@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { nextRun, parseCron } from '../lib/cron';
+
+const at = (iso: string) => new Date(iso);
+const next = (expr: string, after: string) => nextRun(expr, at(after)).toISOString();
+
+describe('nextRun', () => {
+  it('returns the first matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2024-03-10T10:07:42Z')).toBe('2024-03-10T10:15:00.000Z');
+    expect(next('*/15 * * * *', '2024-03-10T10:15:00Z')).toBe('2024-03-10T10:30:00.000Z');
+    expect(next('59 23 * * *', '2024-12-31T23:59:00Z')).toBe('2025-01-01T23:59:00.000Z');
+  });
+
+  it('expands macros, ranges, steps and names', () => {
+    expect(next('@hourly', '2024-03-10T10:00:00Z')).toBe('2024-03-10T11:00:00.000Z');
+    expect(next('@weekly', '2024-03-10T10:00:00Z')).toBe('2024-03-17T00:00:00.000Z');
+    expect(next('0 9-17/4 * * *', '2024-03-10T13:30:00Z')).toBe('2024-03-10T17:00:00.000Z');
+    expect(next('30 6 * JUN MON-FRI', '2024-03-10T00:00:00Z')).toBe('2024-06-03T06:30:00.000Z');
+    expect(next('0 0 * * 7', '2024-03-11T00:00:00Z')).toBe('2024-03-17T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    expect(next('0 0 13 * FRI', '2024-03-01T12:00:00Z')).toBe('2024-03-08T00:00:00.000Z');
+    expect(next('0 0 13 * FRI', '2024-03-08T12:00:00Z')).toBe('2024-03-13T00:00:00.000Z');
+  });
+
+  it('finds sparse dates and rejects ones that never come', () => {
+    expect(next('0 12 29 2 *', '2025-01-01T00:00:00Z')).toBe('2028-02-29T12:00:00.000Z');
+    expect(() => nextRun('0 0 31 2 *', at('2024-01-01T00:00:00Z'))).toThrow('Cron expression never matches');
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/must have 5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/out of range 0-59/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid cron step/);
+    expect(() => parseCron('0 0 * FOO *')).toThrow(/Invalid cron value "FOO"/);
+  });
+});
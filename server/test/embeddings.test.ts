@@ -0,0 +1,133 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Local stand-in for Ollama (/api/embed, legacy /api/embeddings) and an OpenAI-compatible /v1/embeddings
+const requests: Array<{ path: string; body: any; auth?: string }> = [];
+const server = {
+  // Ollama before 0.3: no /api/embed
+  legacyOllama: false,
+  // Transient failures (503, Retry-After: 0) to answer before succeeding
+  failures: 0
+};
+
+const vectorFor = (text: string) => [text.length, text.charCodeAt(0)];
+
+const stub = http.createServer((req, res) => {
+  let raw = '';
+  req.on('data', chunk => (raw += chunk));
+  req.on('end', () => {
+    const body = raw ? JSON.parse(raw) : undefined;
+    requests.push({ path: req.url!, body, auth: req.headers.authorization });
+    const send = (status: number, json: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json', 'retry-after': '0' });
+      res.end(JSON.stringify(json));
+    };
+    if (server.failures > 0) {
+      server.failures--;
+      return send(503, { error: 'busy' });
+    }
+    if (req.url === '/api/embed') {
+      if (server.legacyOllama) {
+        res.writeHead(404, { 'content-type': 'text/plain' });
+        return res.end('404 page not found');
+      }
+      if (body.model === 'missing') return send(404, { error: `model "${body.model}" not found, try pulling it first` });
+      return send(200, { embeddings: body.input.map(vectorFor) });
+    }
+    if (req.url === '/api/embeddings') return send(200, { embedding: vectorFor(body.prompt) });
+    if (req.url === '/v1/embeddings') {
+      // Out of order on purpose; `index` says which input each item is for
+      const data = body.input.map((text: string, index: number) => ({ index, embedding: vectorFor(text) }));
+      return send(200, { data: data.reverse() });
+    }
+    send(404, { error: 'not found' });
+  });
+});
+
+let embeddings: typeof import('../lib/embeddings');
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => stub.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(stub.address() as AddressInfo).port}`;
+  vi.stubEnv('OLLAMA_URL', base);
+  vi.stubEnv('EMBED_BASE_URL', `${base}/v1`);
+  vi.stubEnv('EMBED_API_KEY', 'sk-test');
+  vi.resetModules();
+  embeddings = await import('../lib/embeddings');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => stub.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  server.legacyOllama = false;
+  server.failures = 0;
+});
+
+const texts = ['alpha', 'bb', 'c', 'dddd'];
+
+describe('ollama provider', () => {
+  it('embeds a batch in one /api/embed request, in input order', async () => {
+    const provider = embeddings.embeddingProvider({ provider: 'ollama', model: 'batch-model' });
+    expect(provider.maxBatchSize).toBe(32);
+    expect(await provider.embed(texts)).toEqual(texts.map(vectorFor));
+    expect(requests).toEqual([{ path: '/api/embed', body: { model: 'batch-model', input: texts }, auth: undefined }]);
+  });
+
+  it('falls back to one /api/embeddings request per text on servers without /api/embed, and stays there', async () => {
+    server.legacyOllama = true;
+    const provider = embeddings.embeddingProvider({ provider: 'ollama', model: 'legacy-model' });
+    expect(await provider.embed(texts)).toEqual(texts.map(vectorFor));
+    expect(requests.map(r => r.path)).toEqual(['/api/embed', ...texts.map(() => '/api/embeddings')]);
+    expect(requests.slice(1).map(r => r.body.prompt)).toEqual(texts);
+
+    requests.length = 0;
+    await provider.embed(['again']);
+    expect(requests.map(r => r.path)).toEqual(['/api/embeddings']);
+  });
+
+  it("doesn't fall back when the 404 is about a missing model", async () => {
+    const provider = embeddings.embeddingProvider({ provider: 'ollama', model: 'missing' });
+    await expect(provider.embed(['x'])).rejects.toThrow(/Ollama embed failed 404: .*not found/);
+    expect(requests.map(r => r.path)).toEqual(['/api/embed']);
+  });
+
+  it('retries transient failures', async () => {
+    server.failures = 2;
+    const provider = embeddings.embeddingProvider({ provider: 'ollama', model: 'retry-model' });
+    expect(await provider.embed(['x'])).toEqual([vectorFor('x')]);
+    expect(requests).toHaveLength(3);
+  });
+});
+
+describe('openai provider', () => {
+  it('embeds a batch in one request with the API key and restores input order', async () => {
+    const provider = embeddings.embeddingProvider({ provider: 'openai', model: 'text-embedding-3-small' });
+    expect(provider.maxBatchSize).toBe(64);
+    expect(provider.maxInputTokens).toBe(8191);
+    expect(await provider.embed(texts)).toEqual(texts.map(vectorFor));
+    expect(requests).toEqual([
+      { path: '/v1/embeddings', body: { model: 'text-embedding-3-small', input: texts }, auth: 'Bearer sk-test' }
+    ]);
+  });
+
+  it('retries 5xx responses', async () => {
+    server.failures = 1;
+    const provider = embeddings.embeddingProvider({ provider: 'openai', model: 'text-embedding-3-small' });
+    expect(await provider.embed(['x'])).toEqual([vectorFor('x')]);
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('probeDimension', () => {
+  it("reports the model's vector size, probing once per provider", async () => {
+    const provider = embeddings.embeddingProvider({ provider: 'ollama', model: 'probe-model' });
+    expect(await embeddings.probeDimension(provider)).toBe(2);
+    expect(await embeddings.probeDimension(provider)).toBe(2);
+    expect(requests).toHaveLength(1);
+  });
+});
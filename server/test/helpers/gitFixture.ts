@@ -0,0 +1,45 @@
+import path from 'path';
+import * as nodeFs from 'fs';
+import { promises as fs } from 'fs';
+import git from 'isomorphic-git';
+
+/**
+ * A bare repository for repo-job tests, built with isomorphic-git so no git binary is needed:
+ * - main: c1 (README "v1", docs/guide.md, src/index.ts, tagged v1.0) and c2 (README "v2")
+ * - next: branches off c2 with c3, adding docs/next.md
+ * HEAD is main.
+ */
+export type GitFixture = { url: string; commits: { c1: string; c2: string; c3: string } };
+
+const author = { name: 'Test', email: 'test@example.com', timestamp: 1700000000, timezoneOffset: 0 };
+
+export async function createBareRepo(parent: string, name = 'repo.git'): Promise<GitFixture> {
+  const gitFs = nodeFs as any;
+  const dir = path.join(parent, `${name}-work`);
+  const write = async (file: string, text: string) => {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), text);
+    await git.add({ fs: gitFs, dir, filepath: file });
+  };
+  const commit = (message: string) => git.commit({ fs: gitFs, dir, message, author });
+
+  await git.init({ fs: gitFs, dir, defaultBranch: 'main' });
+  await write('README.md', '# Fixture\n\nRelease v1 of the fixture repository.\n');
+  await write('docs/guide.md', '# Guide\n\nHow to use the fixture repository.\n');
+  await write('src/index.ts', 'export function answer(): number {\n  return 42;\n}\n');
+  const c1 = await commit('first');
+  await git.tag({ fs: gitFs, dir, ref: 'v1.0' });
+  await write('README.md', '# Fixture\n\nRelease v2 of the fixture repository.\n');
+  const c2 = await commit('second');
+  await git.branch({ fs: gitFs, dir, ref: 'next', checkout: true });
+  await write('docs/next.md', '# Next\n\nUpcoming changes to the fixture repository.\n');
+  const c3 = await commit('third');
+  await git.checkout({ fs: gitFs, dir, ref: 'main' });
+
+  // A bare repository is the git directory on its own
+  const bare = path.join(parent, name);
+  await fs.cp(path.join(dir, '.git'), bare, { recursive: true });
+  await git.setConfig({ fs: gitFs, gitdir: bare, path: 'core.bare', value: true });
+  await fs.rm(dir, { recursive: true, force: true });
+  return { url: `file://${bare}`, commits: { c1, c2, c3 } };
+}
@@ -0,0 +1,90 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * In-memory stand-in for the parts of Qdrant's HTTP API the app uses: collections with one unnamed
+ * vector, upsert, delete by payload `url`, and search. Scoring follows Qdrant: Cosine vectors are
+ * normalized on upsert, Euclid scores are distances (ascending).
+ */
+
+type Collection = {
+  size: number;
+  distance: 'Cosine' | 'Euclid' | 'Dot';
+  points: Map<string, { vector: number[]; payload: any }>;
+};
+
+function normalize(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm ? v.map(x => x / norm) : v;
+}
+
+export async function startQdrantStub(): Promise<{ url: string; close(): Promise<void> }> {
+  const collections = new Map<string, Collection>();
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      const send = (status: number, json: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(json));
+      };
+      const body = raw ? JSON.parse(raw) : {};
+      const m = /^\/collections\/([^/?]+)(\/[^?]*)?/.exec(req.url ?? '');
+      if (!m) return send(404, { status: { error: 'Not found' } });
+      const name = decodeURIComponent(m[1]);
+      const action = m[2] ?? '';
+      const c = collections.get(name);
+
+      if (!action && req.method === 'GET') {
+        if (!c) return send(404, { status: { error: `Collection ${name} doesn't exist` } });
+        return send(200, { result: { config: { params: { vectors: { size: c.size, distance: c.distance } } } } });
+      }
+      if (!action && req.method === 'PUT') {
+        if (c) return send(409, { status: { error: `Collection ${name} already exists` } });
+        collections.set(name, { size: body.vectors.size, distance: body.vectors.distance, points: new Map() });
+        return send(200, { result: true });
+      }
+      if (!c) return send(404, { status: { error: `Collection ${name} doesn't exist` } });
+
+      if (action === '/points' && req.method === 'PUT') {
+        for (const p of body.points) {
+          if (p.vector.length !== c.size) return send(400, { status: { error: 'Wrong vector dimension' } });
+          c.points.set(String(p.id), { vector: c.distance === 'Cosine' ? normalize(p.vector) : p.vector, payload: p.payload });
+        }
+        return send(200, { result: { status: 'completed' } });
+      }
+      if (action === '/points/delete') {
+        const urls = new Set(body.filter.should.map((cond: any) => cond.match.value));
+        for (const [id, p] of c.points) if (urls.has(p.payload?.url)) c.points.delete(id);
+        return send(200, { result: { status: 'completed' } });
+      }
+      if (action === '/points/search') {
+        const q: number[] = c.distance === 'Cosine' ? normalize(body.vector) : body.vector;
+        const euclid = c.distance === 'Euclid';
+        const hits = [...c.points].map(([id, p]) => ({
+          id,
+          payload: p.payload,
+          score: euclid
+            ? Math.sqrt(p.vector.reduce((s, x, i) => s + (x - q[i]) ** 2, 0))
+            : p.vector.reduce((s, x, i) => s + x * q[i], 0)
+        }));
+        const threshold = body.score_threshold;
+        return send(200, {
+          result: hits
+            .filter(h => threshold === undefined || (euclid ? h.score <= threshold : h.score >= threshold))
+            .sort((a, b) => (euclid ? a.score - b.score : b.score - a.score))
+            .slice(0, body.limit)
+        });
+      }
+      send(404, { status: { error: 'Not found' } });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
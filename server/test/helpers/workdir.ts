@@ -0,0 +1,21 @@
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { vi } from 'vitest';
+
+/**
+ * Point process.cwd() at a fresh temporary directory, so modules that keep their files under the
+ * working directory (server/.cache, server/data) write there. Import those modules afterwards
+ * (vi.resetModules + dynamic import): they resolve their paths when loaded.
+ */
+export async function useTempWorkdir(): Promise<{ dir: string; restore(): Promise<void> }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'scraper-test-'));
+  const spy = vi.spyOn(process, 'cwd').mockReturnValue(dir);
+  return {
+    dir,
+    async restore() {
+      spy.mockRestore();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+}
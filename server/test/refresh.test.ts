@@ -0,0 +1,73 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Job } from '../types';
+import { diffFiles } from '../lib/refresh';
+import { useTempWorkdir } from './helpers/workdir';
+
+// Refreshing a docs crawl while parts of the site fail
+const pages: Record<string, string> = {
+  '/docs/': '<html><body><main><p>Index.</p><a href="/docs/a">A</a> <a href="/docs/b">B</a></main></body></html>',
+  '/docs/a': '<html><body><main><p>Page A.</p></main></body></html>',
+  '/docs/b': '<html><body><main><p>Page B.</p></main></body></html>'
+};
+// Status to answer instead of the page, by path
+let failing: Record<string, number> = {};
+
+const site = http.createServer((req, res) => {
+  const status = failing[req.url!] ?? (pages[req.url!] ? 200 : 404);
+  res.writeHead(status, { 'content-type': 'text/html' });
+  res.end(status === 200 ? pages[req.url!] : '');
+});
+
+let base = '';
+let workdir: Awaited<ReturnType<typeof useTempWorkdir>>;
+let scraper: typeof import('../lib/scraper');
+let db: typeof import('../lib/db');
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => site.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(site.address() as AddressInfo).port}`;
+  workdir = await useTempWorkdir();
+  vi.resetModules();
+  scraper = await import('../lib/scraper');
+  db = await import('../lib/db');
+});
+
+afterAll(async () => {
+  await new Promise(resolve => site.close(resolve));
+  await workdir.restore();
+});
+
+describe('docs refresh', () => {
+  it('keeps stored pages through server errors and drops only pages that are gone', async () => {
+    const job = {
+      id: 'refresh-job',
+      type: 'docs',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      format: 'rag',
+      urls: [`${base}/docs/`],
+      respectRobots: false,
+      perHostRps: 20
+    } as Job;
+    db.createJob(job);
+    const first = await scraper.scrape(job, () => {}, () => {});
+    expect(first.map(f => f.url).sort()).toEqual([`${base}/docs/`, `${base}/docs/a`, `${base}/docs/b`]);
+
+    failing = { '/docs/a': 500, '/docs/b': 404 };
+    const logs: string[] = [];
+    // As the refresh route loads them
+    const previousFiles = db.getFiles(job.id);
+    const refreshed = await scraper.scrape({ ...job, previousFiles }, (level, message) => logs.push(`${level}: ${message}`), () => {});
+
+    expect(refreshed.map(f => f.url).sort()).toEqual([`${base}/docs/`, `${base}/docs/a`]);
+    expect(refreshed.find(f => f.url === `${base}/docs/a`)!.text).toContain('Page A.');
+    expect(db.getFiles(job.id).map(f => f.url).sort()).toEqual([`${base}/docs/`, `${base}/docs/a`]);
+    expect(logs).toContain('info: Kept the stored copy of 1 pages that failed to fetch');
+
+    const diff = diffFiles(previousFiles, refreshed);
+    expect(diff.removed.map(f => f.url)).toEqual([`${base}/docs/b`]);
+    expect(diff.unchanged.map(f => f.url).sort()).toEqual([`${base}/docs/`, `${base}/docs/a`]);
+  });
+});
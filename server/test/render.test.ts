@@ -0,0 +1,106 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { FetchResult, PageRenderer, RenderOptions } from '../lib/render';
+import type { Job } from '../types';
+import { useTempWorkdir } from './helpers/workdir';
+
+// Docs crawls with render: 'browser', driven through a fake renderer instead of Chromium
+const PAGES: Record<string, FetchResult> = {
+  'http://docs.test/': {
+    ok: true,
+    finalUrl: 'http://docs.test/',
+    html: `<html><head><title>Docs</title></head><body>
+      <nav><a href="/guide">Guide</a></nav>
+      <div id="app"><h1>Home</h1><p>Rendered by the client.</p><a href="/missing">Missing</a></div>
+    </body></html>`
+  },
+  'http://docs.test/guide': {
+    ok: true,
+    finalUrl: 'http://docs.test/guide',
+    html: `<html><body><div id="app"><h1>Guide</h1><p>Step one.</p></div><div class="footer">Footer text</div></body></html>`
+  },
+  'http://docs.test/missing': { ok: false, status: 404 }
+};
+
+let workdir: Awaited<ReturnType<typeof useTempWorkdir>>;
+let render: typeof import('../lib/render');
+let scraper: typeof import('../lib/scraper');
+let db: typeof import('../lib/db');
+
+beforeAll(async () => {
+  workdir = await useTempWorkdir();
+  vi.resetModules();
+  render = await import('../lib/render');
+  scraper = await import('../lib/scraper');
+  db = await import('../lib/db');
+});
+
+afterEach(() => render.setBrowserRendererFactory(null));
+
+afterAll(() => workdir.restore());
+
+describe('browser rendering', () => {
+  it('crawls rendered pages through the configured renderer', async () => {
+    const rendered: Array<{ url: string; opts: RenderOptions }> = [];
+    const factory = vi.fn(async (): Promise<PageRenderer> => ({
+      async render(url, opts) {
+        rendered.push({ url, opts });
+        return PAGES[url] ?? { ok: false, status: 404 };
+      },
+      close: vi.fn(async () => {})
+    }));
+    render.setBrowserRendererFactory(factory);
+
+    const logs: string[] = [];
+    const job = {
+      id: 'render-job',
+      type: 'docs',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      format: 'markdown',
+      urls: ['http://docs.test/'],
+      depth: 2,
+      maxPages: 10,
+      respectRobots: false,
+      userAgent: 'TestBot/1.0',
+      concurrency: 1,
+      perHostRps: 20,
+      render: 'browser',
+      waitForSelector: '#app',
+      renderTimeoutMs: 5000,
+      contentSelector: '#app'
+    } as Job;
+    db.createJob(job);
+    const files = await scraper.scrape(job, (level, message) => logs.push(`${level}: ${message}`), () => {});
+
+    expect(factory).toHaveBeenCalledTimes(1);
+    expect(factory).toHaveBeenCalledWith({ userAgent: 'TestBot/1.0' });
+    expect(rendered.map(r => r.url).sort()).toEqual(Object.keys(PAGES).sort());
+    for (const r of rendered) expect(r.opts).toEqual({ userAgent: 'TestBot/1.0', timeoutMs: 5000, waitForSelector: '#app' });
+    const renderer = await factory.mock.results[0]!.value;
+    expect(renderer.close).toHaveBeenCalledTimes(1);
+
+    expect(files.map(f => f.url).sort()).toEqual(['http://docs.test/', 'http://docs.test/guide']);
+    const guide = files.find(f => f.url === 'http://docs.test/guide')!;
+    expect(guide.text).toContain('Step one.');
+    expect(guide.text).not.toContain('Footer text');
+    expect(logs).toContain('error: Failed to fetch http://docs.test/missing (HTTP 404)');
+    expect(db.getFiles(job.id)).toHaveLength(2);
+  });
+
+  it('fails the crawl when no renderer can be started', async () => {
+    render.setBrowserRendererFactory(async () => {
+      throw new Error('no browser here');
+    });
+    const job = {
+      id: 'render-fail',
+      type: 'docs',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      format: 'markdown',
+      urls: ['http://docs.test/'],
+      respectRobots: false,
+      render: 'browser'
+    } as Job;
+    await expect(scraper.scrape(job, () => {}, () => {})).rejects.toThrow('no browser here');
+  });
+});
@@ -0,0 +1,105 @@
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import type { Job, RepoFailure, RepoRevision } from '../types';
+import { createBareRepo, GitFixture } from './helpers/gitFixture';
+import { useTempWorkdir } from './helpers/workdir';
+
+// Repo jobs against a local bare repository (file:// remote)
+let workdir: Awaited<ReturnType<typeof useTempWorkdir>>;
+let fixture: GitFixture;
+let scraper: typeof import('../lib/scraper');
+let db: typeof import('../lib/db');
+let jobCount = 0;
+
+beforeAll(async () => {
+  workdir = await useTempWorkdir();
+  fixture = await createBareRepo(workdir.dir);
+  vi.stubEnv('GIT_ALLOW_FILE_REMOTES', '1');
+  vi.resetModules();
+  scraper = await import('../lib/scraper');
+  db = await import('../lib/db');
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await workdir.restore();
+});
+
+async function scrapeRepos(urls: string[], fields: Partial<Job> = {}) {
+  const job = {
+    id: `repo-job-${++jobCount}`,
+    type: 'repo',
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    format: 'rag',
+    urls,
+    ...fields
+  } as Job;
+  db.createJob(job);
+  const logs: string[] = [];
+  const files = await scraper.scrape(job, (level, message) => logs.push(`${level}: ${message}`), () => {});
+  const row = db.getJob(job.id) as { revisions: string | null; repoFailures: string | null };
+  return {
+    files,
+    text: (name: string) => files.find(f => f.name === name)?.text,
+    revisions: JSON.parse(row.revisions ?? '[]') as RepoRevision[],
+    failures: JSON.parse(row.repoFailures ?? '[]') as RepoFailure[],
+    logs
+  };
+}
+
+describe('repo jobs', () => {
+  it('checks out the default branch', async () => {
+    const { files, text, revisions } = await scrapeRepos([fixture.url]);
+    expect(files.map(f => f.name).sort()).toEqual(['repo/README.md', 'repo/docs/guide.md', 'repo/src/index.ts']);
+    expect(text('repo/README.md')).toContain('Release v2');
+    expect(files.every(f => f.commit === fixture.commits.c2)).toBe(true);
+    expect(files.find(f => f.name === 'repo/README.md')!.url).toBe(`${fixture.url}#main:README.md`);
+    expect(revisions).toEqual([{ url: fixture.url, ref: 'main', refKind: 'branch', commit: fixture.commits.c2 }]);
+  });
+
+  it('checks out a branch', async () => {
+    const { text, revisions } = await scrapeRepos([fixture.url], { ref: 'next' });
+    expect(text('repo/docs/next.md')).toContain('Upcoming changes');
+    expect(revisions).toEqual([{ url: fixture.url, ref: 'next', refKind: 'branch', commit: fixture.commits.c3 }]);
+  });
+
+  it('checks out a tag', async () => {
+    const { files, text, revisions } = await scrapeRepos([fixture.url], { ref: 'v1.0' });
+    expect(text('repo/README.md')).toContain('Release v1');
+    expect(files.some(f => f.name === 'repo/docs/next.md')).toBe(false);
+    expect(revisions).toEqual([{ url: fixture.url, ref: 'v1.0', refKind: 'tag', commit: fixture.commits.c1 }]);
+  });
+
+  it('pins a commit by its (abbreviated) SHA', async () => {
+    const { text, revisions } = await scrapeRepos([fixture.url], { ref: fixture.commits.c1.slice(0, 10) });
+    expect(text('repo/README.md')).toContain('Release v1');
+    expect(revisions).toEqual([{ url: fixture.url, ref: fixture.commits.c1, refKind: 'commit', commit: fixture.commits.c1 }]);
+  });
+
+  it('limits collection to a subdirectory, keeping paths relative to the repo root', async () => {
+    const { files, revisions } = await scrapeRepos([fixture.url], { ref: 'next', subdir: 'docs' });
+    expect(files.map(f => f.name).sort()).toEqual(['repo/docs/guide.md', 'repo/docs/next.md']);
+    expect(revisions[0]).toMatchObject({ ref: 'next', subdir: 'docs' });
+  });
+
+  it('fails on a ref or subdirectory that does not exist', async () => {
+    await expect(scrapeRepos([fixture.url], { ref: 'no-such-branch' })).rejects.toThrow();
+    await expect(scrapeRepos([fixture.url], { ref: 'deadbeef00' })).rejects.toThrow(/Commit deadbeef00 not found/);
+    await expect(scrapeRepos([fixture.url], { subdir: 'missing' })).rejects.toThrow(/Subdirectory missing not found at main/);
+  });
+
+  it('keeps going when one repo of several fails', async () => {
+    const broken = `file://${path.join(workdir.dir, 'not-a-repo')}`;
+    const { files, revisions, failures, logs } = await scrapeRepos([broken, fixture.url]);
+    expect(files.map(f => f.name)).toContain('repo/README.md');
+    expect(revisions.map(r => r.url)).toEqual([fixture.url]);
+    expect(failures).toEqual([{ url: broken, error: expect.stringMatching(/Not a git repository/) }]);
+    expect(logs).toContain(`error: Scraped 1 of 2 repos; failed: ${broken}`);
+  });
+
+  it('fails the job when every repo fails', async () => {
+    const broken = `file://${path.join(workdir.dir, 'not-a-repo')}`;
+    await expect(scrapeRepos([broken, `${broken}-either`])).rejects.toThrow('All 2 repos failed');
+  });
+});
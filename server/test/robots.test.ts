@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedByRobots, parseRobots } from '../lib/robots';
+
+const UA = 'ScraperCompletedBot/0.1 (+https://example.com/bot)';
+
+const allowed = (body: string, path: string) => isAllowedByRobots(parseRobots(body, UA), `https://example.com${path}`);
+
+describe('parseRobots group selection', () => {
+  it('uses the group naming our product token, case-insensitively, instead of `*`', () => {
+    const rules = parseRobots(
+      ['User-agent: *', 'Disallow: /', '', 'User-agent: scrapercompletedbot', 'Disallow: /private', 'Crawl-delay: 2'].join('\n'),
+      UA
+    );
+    expect(rules.rules).toEqual([{ allow: false, pattern: '/private' }]);
+    expect(rules.crawlDelaySec).toBe(2);
+  });
+
+  it('matches the whole product token only, not substrings of it', () => {
+    const body = ['User-agent: bot', 'User-agent: scraper', 'Disallow: /', '', 'User-agent: *', 'Disallow: /tmp'].join('\n');
+    expect(parseRobots(body, UA).rules).toEqual([{ allow: false, pattern: '/tmp' }]);
+    expect(parseRobots(body, 'Scraper/2.0').rules).toEqual([{ allow: false, pattern: '/' }]);
+  });
+
+  it('merges every group naming us and shares one group between consecutive user-agent lines', () => {
+    const rules = parseRobots(
+      [
+        'User-agent: OtherBot',
+        'User-agent: ScraperCompletedBot',
+        'Disallow: /a',
+        'User-agent: ScraperCompletedBot',
+        'Disallow: /b',
+        'Crawl-delay: 9999',
+        'Sitemap: https://example.com/sitemap.xml'
+      ].join('\n'),
+      UA
+    );
+    expect(rules.rules.map(r => r.pattern)).toEqual(['/a', '/b']);
+    expect(rules.crawlDelaySec).toBe(60);
+    expect(rules.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('allows everything when no group applies', () => {
+    expect(parseRobots('User-agent: OtherBot\nDisallow: /', UA).rules).toEqual([]);
+  });
+});
+
+describe('isAllowedByRobots', () => {
+  const body = [
+    'User-agent: *',
+    'Disallow: /docs/',
+    'Allow: /docs/public/',
+    'Disallow: /docs/public/drafts',
+    'Disallow: /*.pdf$',
+    'Allow: /same',
+    'Disallow: /same'
+  ].join('\n');
+
+  it('lets the longest matching pattern win', () => {
+    expect(allowed(body, '/docs/intro')).toBe(false);
+    expect(allowed(body, '/docs/public/guide')).toBe(true);
+    expect(allowed(body, '/docs/public/drafts/next')).toBe(false);
+    expect(allowed(body, '/blog')).toBe(true);
+  });
+
+  it('prefers Allow when equally long patterns conflict', () => {
+    expect(allowed(body, '/same/page')).toBe(true);
+    expect(allowed('User-agent: *\nDisallow: /x\nAllow: /x', '/x')).toBe(true);
+  });
+
+  it('supports `*` wildcards and the `$` end anchor', () => {
+    expect(allowed(body, '/files/manual.pdf')).toBe(false);
+    expect(allowed(body, '/files/manual.pdf?download=1')).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// The scheduler against the real schedule table; starting jobs and logging are stubbed out
+const startJob = vi.fn((_request: unknown, _opts: { scheduleId?: string }) => `job-${startJob.mock.calls.length}`);
+const log = { info: vi.fn(), error: vi.fn() };
+
+let scheduler: typeof import('../lib/scheduler');
+let db: typeof import('../lib/db');
+let scheduleCount = 0;
+
+beforeAll(async () => {
+  vi.resetModules();
+  vi.doMock('../lib/pipeline', () => ({ startJob }));
+  vi.doMock('../lib/logger', () => ({ logger: { child: () => log } }));
+  scheduler = await import('../lib/scheduler');
+  db = await import('../lib/db');
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+const NOW = new Date('2024-03-10T12:00:10Z');
+
+function addSchedule(fields: { cron?: string; nextRunAt: string; missedRunPolicy?: 'run-once' | 'skip' }): string {
+  const id = `schedule-${++scheduleCount}`;
+  db.createSchedule({
+    id,
+    name: id,
+    cron: fields.cron ?? '0 * * * *',
+    request: { urls: ['https://docs.example.com/'], type: 'docs', format: 'rag' },
+    enabled: true,
+    missedRunPolicy: fields.missedRunPolicy ?? 'run-once',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    nextRunAt: fields.nextRunAt
+  });
+  return id;
+}
+
+const schedule = (id: string) => db.getSchedule(id) as { nextRunAt: string | null; lastRunAt: string | null; lastJobId: string | null; enabled: number };
+
+describe('runDueSchedules', () => {
+  it('starts a job for a schedule that just came due and moves it to the next slot', () => {
+    const id = addSchedule({ nextRunAt: '2024-03-10T12:00:00.000Z' });
+    const later = addSchedule({ nextRunAt: '2024-03-10T13:00:00.000Z' });
+    scheduler.runDueSchedules(NOW);
+
+    expect(startJob).toHaveBeenCalledTimes(1);
+    expect(startJob.mock.calls[0]![1]).toEqual({ scheduleId: id });
+    expect(schedule(id)).toMatchObject({
+      nextRunAt: '2024-03-10T13:00:00.000Z',
+      lastRunAt: NOW.toISOString(),
+      lastJobId: 'job-1'
+    });
+    expect(schedule(later).lastRunAt).toBeNull();
+    db.deleteSchedule(id);
+    db.deleteSchedule(later);
+  });
+
+  it('runs a schedule that missed several runs while the server was down only once', () => {
+    // Due at 07:00; 07:00 through 12:00 were all missed
+    const id = addSchedule({ nextRunAt: '2024-03-10T07:00:00.000Z' });
+    scheduler.runDueSchedules(NOW);
+    scheduler.runDueSchedules(new Date(NOW.getTime() + 30000));
+
+    expect(startJob).toHaveBeenCalledTimes(1);
+    expect(log.info).toHaveBeenCalledWith(`Schedule ${id} missed 6 run(s); running once now`);
+    expect(schedule(id).nextRunAt).toBe('2024-03-10T13:00:00.000Z');
+    db.deleteSchedule(id);
+  });
+
+  it("doesn't run missed runs at all under the 'skip' policy", () => {
+    const id = addSchedule({ nextRunAt: '2024-03-10T07:00:00.000Z', missedRunPolicy: 'skip' });
+    scheduler.runDueSchedules(NOW);
+
+    expect(startJob).not.toHaveBeenCalled();
+    expect(log.info).toHaveBeenCalledWith(`Schedule ${id} skipped 6 missed run(s)`);
+    expect(schedule(id)).toMatchObject({ nextRunAt: '2024-03-10T13:00:00.000Z', lastRunAt: null });
+    db.deleteSchedule(id);
+  });
+
+  it('skips a run while the previous job is still in progress', () => {
+    const id = addSchedule({ nextRunAt: '2024-03-10T12:00:00.000Z' });
+    db.createJob({ id: 'busy-job', type: 'docs', format: 'rag', createdAt: NOW.toISOString() });
+    db.updateSchedule(id, { lastJobId: 'busy-job' });
+    scheduler.runDueSchedules(NOW);
+    expect(startJob).not.toHaveBeenCalled();
+
+    db.updateJob('busy-job', { status: 'completed' });
+    scheduler.runDueSchedules(new Date('2024-03-10T13:00:05Z'));
+    expect(startJob).toHaveBeenCalledTimes(1);
+    db.deleteSchedule(id);
+  });
+
+  it('disables a schedule whose expression no longer matches', () => {
+    const id = addSchedule({ cron: '0 0 31 2 *', nextRunAt: '2024-03-10T12:00:00.000Z' });
+    scheduler.runDueSchedules(NOW);
+
+    expect(startJob).not.toHaveBeenCalled();
+    expect(schedule(id)).toMatchObject({ enabled: 0, nextRunAt: null });
+    expect(log.error).toHaveBeenCalledWith(`Schedule ${id} disabled: Cron expression never matches`);
+    db.deleteSchedule(id);
+  });
+});
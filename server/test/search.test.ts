@@ -0,0 +1,86 @@
+import http from 'http';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// POST /api/search over several jobs, on the embedded vector store
+let server: http.Server;
+let base = '';
+
+const chunk = (job: string, n: number, text: string) => ({
+  pointId: `${job}-${n}`,
+  url: `https://${job}.example.com/${n}`,
+  payload: { url: `https://${job}.example.com/${n}`, name: `${job}-${n}`, text },
+  text
+});
+
+beforeAll(async () => {
+  vi.stubEnv('VECTOR_STORE', 'sqlite');
+  vi.resetModules();
+  const db = await import('../lib/db');
+  const vectorStore = await import('../lib/vectorStore');
+  const { default: searchRouter } = await import('../routes/search');
+
+  // Short chunks dense with "widget" in one job, long chunks mentioning it once in the other: every
+  // hit of the first outscores the second's best on raw BM25
+  const filler = 'Installation, configuration and upgrade notes for the product, with examples. '.repeat(8);
+  const corpora = {
+    dense: [
+      chunk('dense', 0, 'Widget widget widget setup.'),
+      chunk('dense', 1, 'The widget and widget themes.'),
+      chunk('dense', 2, 'Unrelated page about installation.')
+    ],
+    sparse: [
+      chunk('sparse', 0, `Widget API reference. ${filler}`),
+      chunk('sparse', 1, `${filler} Styling a widget.`)
+    ]
+  };
+  for (const [job, chunks] of Object.entries(corpora)) {
+    db.createJob({ id: job, type: 'docs', format: 'rag', createdAt: '2024-01-01T00:00:00.000Z', request: { urls: [`https://${job}.example.com/`] } });
+    await vectorStore.ensureCollection(vectorStore.collectionName(job), 2);
+    db.saveChunkText(vectorStore.collectionName(job), chunks);
+  }
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api', searchRouter);
+  server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await new Promise(resolve => server.close(resolve));
+});
+
+const search = async (body: unknown) => {
+  const res = await fetch(`${base}/api/search`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: (await res.json()) as any };
+};
+
+describe('keyword search across jobs', () => {
+  it('merges the collections by rank, not by their raw BM25 scores', async () => {
+    const dense = await search({ query: 'widget', jobId: 'dense', mode: 'keyword' });
+    const sparse = await search({ query: 'widget', jobId: 'sparse', mode: 'keyword' });
+    const rawDense = dense.body.hits.map((h: any) => h.scores.keyword);
+    expect(Math.min(...rawDense)).toBeGreaterThan(sparse.body.hits[0].scores.keyword);
+
+    const { status, body } = await search({ query: 'widget', jobIds: ['dense', 'sparse'], mode: 'keyword', limit: 2 });
+    expect(status).toBe(200);
+    expect(body.hits.map((h: any) => h.jobId)).toEqual(['dense', 'sparse']);
+    expect(body.hits[0].score).toBeCloseTo(body.hits[1].score, 10);
+    expect(body.hits.every((h: any) => h.matchedBy.join() === 'keyword' && h.highlights.length > 0)).toBe(true);
+  });
+
+  it('ranks a single collection as its keyword scores do', async () => {
+    const { body } = await search({ query: 'widget', jobId: 'sparse', mode: 'keyword' });
+    const raw = body.hits.map((h: any) => h.scores.keyword);
+    expect(raw).toEqual([...raw].sort((a, b) => b - a));
+    expect(body.hits.map((h: any) => h.score)).toEqual([...body.hits.map((h: any) => h.score)].sort((a, b) => b - a));
+  });
+});
@@ -0,0 +1,142 @@
+import http from 'http';
+import { gzipSync } from 'zlib';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Job } from '../types';
+import { useTempWorkdir } from './helpers/workdir';
+
+// A docs site on a local server; each test sets the routes it serves
+let routes: Record<string, string | Buffer> = {};
+// Paths whose (gzipped) body is sent with Content-Encoding: gzip
+let encoded = new Set<string>();
+const requested: string[] = [];
+let base = '';
+
+const site = http.createServer((req, res) => {
+  requested.push(req.url!);
+  const body = routes[req.url!];
+  if (body === undefined) {
+    res.writeHead(404);
+    return res.end();
+  }
+  const type = req.url!.endsWith('.gz') ? 'application/octet-stream' : req.url!.includes('.xml') ? 'application/xml' : req.url === '/robots.txt' ? 'text/plain' : 'text/html';
+  res.writeHead(200, { 'content-type': type, ...(encoded.has(req.url!) ? { 'content-encoding': 'gzip' } : {}) });
+  res.end(body);
+});
+
+const urlset = (paths: string[]) =>
+  `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${paths
+    .map(p => `<url><loc>${base}${p}</loc></url>`)
+    .join('')}</urlset>`;
+const page = (title: string) => `<html><head><title>${title}</title></head><body><main><p>${title} content.</p></main></body></html>`;
+
+let workdir: Awaited<ReturnType<typeof useTempWorkdir>>;
+let sitemap: typeof import('../lib/sitemap');
+let scraper: typeof import('../lib/scraper');
+let db: typeof import('../lib/db');
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => site.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(site.address() as AddressInfo).port}`;
+  workdir = await useTempWorkdir();
+  vi.resetModules();
+  sitemap = await import('../lib/sitemap');
+  scraper = await import('../lib/scraper');
+  db = await import('../lib/db');
+});
+
+afterAll(async () => {
+  await new Promise(resolve => site.close(resolve));
+  await workdir.restore();
+});
+
+beforeEach(() => {
+  routes = {};
+  encoded = new Set();
+  requested.length = 0;
+});
+
+describe('discoverSitemapUrls', () => {
+  beforeEach(() => {
+    routes = {
+      '/index.xml': `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>${base}/pages.xml.gz</loc></sitemap><sitemap><loc>${base}/more.xml</loc></sitemap>
+      </sitemapindex>`,
+      '/pages.xml.gz': gzipSync(urlset(['/blog/1', '/blog/2', '/docs/1'])),
+      '/more.xml': urlset(['/docs/2', '/docs/3'])
+    };
+  });
+
+  it('follows sitemap indexes and gzipped sitemaps, in document order', async () => {
+    const urls = await sitemap.discoverSitemapUrls(base, [`${base}/index.xml`], 'TestBot', 100, () => {});
+    expect(urls).toEqual(['/blog/1', '/blog/2', '/docs/1', '/docs/2', '/docs/3'].map(p => base + p));
+    expect(requested).toContain('/sitemap.xml');
+  });
+
+  it('caps the URLs it accepts, not the ones it reads', async () => {
+    const log = () => {};
+    expect(await sitemap.discoverSitemapUrls(base, [`${base}/index.xml`], 'TestBot', 2, log)).toEqual([`${base}/blog/1`, `${base}/blog/2`]);
+    const docs = await sitemap.discoverSitemapUrls(base, [`${base}/index.xml`], 'TestBot', 2, log, loc => loc.includes('/docs/'));
+    expect(docs).toEqual([`${base}/docs/1`, `${base}/docs/2`]);
+  });
+
+  it('stops reading a sitemap past 50MB uncompressed, however it is compressed', async () => {
+    const bomb = gzipSync(Buffer.alloc(50 * 1024 * 1024 + 1, ' '));
+    routes = { '/bomb.xml.gz': bomb, '/encoded.xml': bomb, '/ok.xml': urlset(['/docs/1']) };
+    encoded.add('/encoded.xml');
+    const logs: string[] = [];
+    const sitemaps = ['/bomb.xml.gz', '/encoded.xml', '/ok.xml'].map(p => base + p);
+    const urls = await sitemap.discoverSitemapUrls(base, sitemaps, 'TestBot', 100, (level, message) => logs.push(`${level}: ${message}`));
+    expect(urls).toEqual([`${base}/docs/1`]);
+    expect(logs.filter(l => l.startsWith('error: ') && l.includes('bytes uncompressed; skipped'))).toEqual([
+      `error: Sitemap ${base}/bomb.xml.gz is larger than ${50 * 1024 * 1024} bytes uncompressed; skipped`,
+      `error: Sitemap ${base}/encoded.xml is larger than ${50 * 1024 * 1024} bytes uncompressed; skipped`
+    ]);
+  });
+});
+
+describe('sitemap discovery in docs crawls', () => {
+  let jobCount = 0;
+  const crawl = async (fields: Partial<Job> & { maxPages?: number }) => {
+    const job = {
+      id: `sitemap-job-${++jobCount}`,
+      type: 'docs',
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      format: 'markdown',
+      urls: [`${base}/docs/`],
+      discovery: 'sitemap',
+      perHostRps: 20,
+      ...fields
+    } as Job;
+    db.createJob(job);
+    const logs: string[] = [];
+    const files = await scraper.scrape(job, (level, message) => logs.push(`${level}: ${message}`), () => {});
+    return { urls: files.map(f => f.url).sort(), logs };
+  };
+
+  it('applies the crawl scope before the maxPages cap', async () => {
+    routes = {
+      '/robots.txt': `User-agent: *\nDisallow: /private/\nSitemap: ${base}/sitemap.xml\n`,
+      '/sitemap.xml': urlset(['/blog/1', '/blog/2', '/blog/3', '/blog/4', '/docs/a', '/docs/b']),
+      '/docs/': page('Docs'),
+      '/docs/a': page('A'),
+      '/docs/b': page('B')
+    };
+    const { urls } = await crawl({ maxPages: 3, stayUnderSeedPath: true });
+    expect(urls).toEqual([`${base}/docs/`, `${base}/docs/a`, `${base}/docs/b`]);
+    expect(requested.filter(p => p.startsWith('/blog/'))).toEqual([]);
+  });
+
+  it("doesn't read sitemaps of a site whose robots.txt disallows /", async () => {
+    routes = {
+      '/robots.txt': `User-agent: *\nDisallow: /\nSitemap: ${base}/sitemap.xml\n`,
+      '/sitemap.xml': urlset(['/docs/a']),
+      '/docs/': page('Docs')
+    };
+    const { urls, logs } = await crawl({});
+    expect(urls).toEqual([]);
+    expect(requested).toEqual(['/robots.txt']);
+    expect(logs).toContain(`info: Sitemap discovery for ${base} skipped: robots.txt disallows /`);
+  });
+});
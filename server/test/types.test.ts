@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { CreateJobRequest } from '../types';
+
+const base = { urls: ['https://docs.example.com/'], type: 'docs', format: 'rag' };
+
+describe('CreateJobRequest', () => {
+  it('accepts CSS selectors for the content and the browser wait', () => {
+    const parsed = CreateJobRequest.safeParse({
+      ...base,
+      render: 'browser',
+      waitForSelector: 'main .content, #app > article',
+      contentSelector: 'div[role="main"]:not(.sidebar)'
+    });
+    expect(parsed.success).toBe(true);
+  });
+
+  it.each(['contentSelector', 'waitForSelector'])('rejects a %s that is not a CSS selector', field => {
+    const parsed = CreateJobRequest.safeParse({ ...base, [field]: 'div[' });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error!.flatten().fieldErrors).toEqual({ [field]: ['Invalid CSS selector'] });
+  });
+});
@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { startQdrantStub } from './helpers/qdrantStub';
+
+// One suite, run against each backend through the VECTOR_STORE selection the server uses
+describe.each(['sqlite', 'qdrant'] as const)('vector store: %s', backend => {
+  let vs: typeof import('../lib/vectorStore');
+  let stub: Awaited<ReturnType<typeof startQdrantStub>> | undefined;
+
+  const id = (n: number) => `00000000-0000-5000-8000-${String(n).padStart(12, '0')}`;
+
+  beforeAll(async () => {
+    if (backend === 'qdrant') {
+      stub = await startQdrantStub();
+      vi.stubEnv('QDRANT_URL', stub.url);
+    }
+    vi.stubEnv('VECTOR_STORE', backend);
+    vi.resetModules();
+    vs = await import('../lib/vectorStore');
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await stub?.close();
+  });
+
+  it('creates a collection once and validates it afterwards', async () => {
+    expect(await vs.collectionExists('create')).toBe(false);
+    expect(await vs.ensureCollection('create', 3, 'Cosine')).toBe(true);
+    expect(await vs.collectionExists('create')).toBe(true);
+    expect(await vs.ensureCollection('create', 3, 'Cosine')).toBe(false);
+    await expect(vs.ensureCollection('create', 4, 'Cosine')).rejects.toThrow(/stores 3-dimension Cosine vectors/);
+    await expect(vs.ensureCollection('create', 3, 'Dot')).rejects.toThrow(/produces 3-dimension Dot vectors/);
+  });
+
+  it('ranks by cosine similarity and replaces points with the same id', async () => {
+    await vs.ensureCollection('cosine', 3, 'Cosine');
+    await vs.upsertPoints('cosine', [
+      { id: id(1), vector: [1, 0, 0], payload: { url: 'u1', text: 'one' } },
+      { id: id(2), vector: [0, 2, 0], payload: { url: 'u2', text: 'two' } },
+      { id: id(3), vector: [1, 1, 0], payload: { url: 'u2', text: 'three' } }
+    ]);
+
+    const hits = await vs.search('cosine', [1, 0.1, 0], 2);
+    expect(hits.map(h => h.id)).toEqual([id(1), id(3)]);
+    expect(hits[0].score).toBeCloseTo(1 / Math.sqrt(1.01), 5);
+    expect(hits[1].score).toBeCloseTo(1.1 / Math.sqrt(2 * 1.01), 5);
+    expect(hits[0].payload).toEqual({ url: 'u1', text: 'one' });
+
+    await vs.upsertPoints('cosine', [{ id: id(1), vector: [0, 0, 5], payload: { url: 'u1', text: 'moved' } }]);
+    const [top] = await vs.search('cosine', [0, 0, 1], 1);
+    expect(top.id).toBe(id(1));
+    expect(top.score).toBeCloseTo(1, 5);
+    expect(top.payload.text).toBe('moved');
+    expect(await vs.search('cosine', [1, 1, 1], 10)).toHaveLength(3);
+  });
+
+  it('applies the score threshold and limit', async () => {
+    await vs.ensureCollection('threshold', 2, 'Cosine');
+    await vs.upsertPoints('threshold', [
+      { id: id(1), vector: [1, 0], payload: { url: 'a' } },
+      { id: id(2), vector: [1, 1], payload: { url: 'b' } },
+      { id: id(3), vector: [0, 1], payload: { url: 'c' } }
+    ]);
+    expect((await vs.search('threshold', [1, 0], 10, 0.5)).map(h => h.id)).toEqual([id(1), id(2)]);
+    expect(await vs.search('threshold', [1, 0], 1)).toHaveLength(1);
+    // 0 is a threshold like any other: it drops the opposite-facing vectors
+    expect((await vs.search('threshold', [-1, 0.1], 10)).map(h => h.id)).toEqual([id(3), id(2), id(1)]);
+    expect((await vs.search('threshold', [-1, 0.1], 10, 0)).map(h => h.id)).toEqual([id(3)]);
+
+    // Euclid thresholds are maximum distances
+    await vs.ensureCollection('threshold-euclid', 2, 'Euclid');
+    await vs.upsertPoints('threshold-euclid', [
+      { id: id(1), vector: [0, 0], payload: { url: 'a' } },
+      { id: id(2), vector: [3, 4], payload: { url: 'b' } }
+    ]);
+    expect((await vs.search('threshold-euclid', [0, 1], 10, 2)).map(h => h.id)).toEqual([id(1)]);
+  });
+
+  it('deletes every point of the given urls and nothing else', async () => {
+    await vs.ensureCollection('delete', 2, 'Cosine');
+    await vs.upsertPoints('delete', [
+      { id: id(1), vector: [1, 0], payload: { url: 'keep' } },
+      { id: id(2), vector: [0, 1], payload: { url: 'drop' } },
+      { id: id(3), vector: [1, 1], payload: { url: 'drop' } },
+      { id: id(4), vector: [1, 2], payload: { url: 'also-drop' } }
+    ]);
+    await vs.deletePointsByUrl('delete', ['drop', 'also-drop']);
+    await vs.deletePointsByUrl('delete', []);
+    const hits = await vs.search('delete', [1, 1], 10);
+    expect(hits.map(h => h.payload.url)).toEqual(['keep']);
+  });
+
+  it('scores Dot by dot product and Euclid by distance, nearest first', async () => {
+    await vs.ensureCollection('dot', 2, 'Dot');
+    await vs.upsertPoints('dot', [
+      { id: id(1), vector: [1, 0], payload: { url: 'a' } },
+      { id: id(2), vector: [3, 1], payload: { url: 'b' } }
+    ]);
+    const dot = await vs.search('dot', [2, 1], 2);
+    expect(dot.map(h => [h.id, h.score])).toEqual([[id(2), 7], [id(1), 2]]);
+
+    await vs.ensureCollection('euclid', 2, 'Euclid');
+    await vs.upsertPoints('euclid', [
+      { id: id(1), vector: [0, 0], payload: { url: 'a' } },
+      { id: id(2), vector: [3, 4], payload: { url: 'b' } }
+    ]);
+    const euclid = await vs.search('euclid', [3, 3], 2);
+    expect(euclid.map(h => h.id)).toEqual([id(2), id(1)]);
+    expect(euclid[0].score).toBeCloseTo(1, 5);
+    expect(euclid[1].score).toBeCloseTo(Math.sqrt(18), 5);
+  });
+
+  it('fails to search a collection that does not exist', async () => {
+    await expect(vs.search('missing', [1, 0], 1)).rejects.toThrow();
+  });
+});
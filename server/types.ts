@@ -1,4 +1,27 @@
 import { z } from 'zod';
+import * as cheerio from 'cheerio';
+import { nextRun } from './lib/cron';
+
+// Glob (`/docs/**`), or a regex prefixed with `re:` (`re:/v[0-9]+/`)
+const UrlPattern = z.string().min(1).refine(p => {
+  if (!p.startsWith('re:')) return true;
+  try {
+    new RegExp(p.slice(3));
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid regular expression' });
+
+// Parsed by the same selector engine the content extraction uses, so a typo fails the request, not the crawl
+const CssSelector = z.string().min(1).refine(s => {
+  try {
+    cheerio.load('').root().find(s);
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'Invalid CSS selector' });
 
 // Request schemas
 export const CreateJobRequest = z.object({
@@ -6,12 +29,118 @@ export const CreateJobRequest = z.object({
   type: z.enum(['docs', 'repo']),
   depth: z.number().int().min(1).max(10).default(3),
   maxPages: z.number().int().min(1).max(2000).default(100),
-  format: z.enum(['rag', 'markdown'])
+  format: z.enum(['rag', 'markdown']),
+  respectRobots: z.boolean().default(true),
+  userAgent: z.string().min(1).max(256).optional(),
+  // How docs crawls find pages: follow <a href> links, read sitemaps, or both
+  discovery: z.enum(['links', 'sitemap', 'both']).default('links'),
+  // Crawl frontier: total parallel fetches, and per-host in-flight / requests-per-second caps
+  concurrency: z.number().int().min(1).max(16).default(4),
+  perHostConcurrency: z.number().int().min(1).max(8).default(2),
+  perHostRps: z.number().min(0.1).max(20).default(2),
+  // Docs crawl scope, applied to every discovered link and sitemap URL
+  include: z.array(UrlPattern).default([]),
+  exclude: z.array(UrlPattern).default([]),
+  stayUnderSeedPath: z.boolean().default(false),
+  allowedOrigins: z.array(z.string().url()).default([]),
+  // 'browser' renders pages in headless Chromium for client-side rendered doc sites
+  render: z.enum(['static', 'browser']).default('static'),
+  waitForSelector: CssSelector.optional(),
+  renderTimeoutMs: z.number().int().min(1000).max(120000).default(30000),
+  // CSS selector for the main content; falls back to main / article / [role=main] / body
+  contentSelector: CssSelector.optional(),
+  // Binary documents extracted to text, in crawls and repos; larger files are skipped
+  documentTypes: z.array(z.enum(['pdf', 'docx', 'pptx'])).default(['pdf', 'docx', 'pptx']),
+  maxDocumentBytes: z.number().int().min(1024).max(100 * 1024 * 1024).default(20 * 1024 * 1024),
+  // Repo jobs: branch, tag or commit SHA, and a subdirectory to limit collection to.
+  // Also read from tree URLs (github.com/org/repo/tree/v2.1/docs); these fields take precedence.
+  ref: z.string().min(1).max(255).optional(),
+  subdir: z.string().min(1).max(1024).optional(),
+  // Repo jobs: which files to collect. The preset picks the base set ('docs' = prose, API specs and
+  // notebooks only); include globs add to it, exclude globs remove from it (paths relative to the
+  // repo root). Vendored and build-output directories are always excluded.
+  repoPreset: z.enum(['all', 'docs']).default('all'),
+  repoInclude: z.array(z.string().min(1)).default([]),
+  repoExclude: z.array(z.string().min(1)).default([]),
+  maxFileBytes: z.number().int().min(1024).max(10 * 1024 * 1024).default(200 * 1024),
+  // How prose is cut into RAG chunks: by sentences up to the token target, or along the Markdown
+  // heading hierarchy with each chunk's heading path attached. Code files are always chunked by symbol.
+  chunkStrategy: z.enum(['sentences', 'markdown']).default('sentences'),
+  // Chunk target and overlap in tokens of `tokenizer`; capped at what the embedding model accepts
+  chunkSize: z.number().int().min(64).max(8192).default(800),
+  chunkOverlap: z.number().int().min(0).max(2048).default(120),
+  tokenizer: z.enum(['cl100k', 'o200k', 'estimate']).default('cl100k'),
+  // Embedding provider and model; EMBED_PROVIDER / EMBED_MODEL when omitted. Resolved and stored
+  // when the job is created, so refreshes keep embedding with the same model.
+  embeddingProvider: z.enum(['ollama', 'openai', 'local']).optional(),
+  embeddingModel: z.string().min(1).max(200).optional()
+}).refine(r => r.chunkOverlap < r.chunkSize, { message: 'chunkOverlap must be smaller than chunkSize', path: ['chunkOverlap'] });
+
+export type CreateJobInput = z.infer<typeof CreateJobRequest>;
+
+const CronExpression = z.string().min(1).superRefine((expr, ctx) => {
+  try {
+    // Also rejects expressions that never match, e.g. Feb 31
+    nextRun(expr);
+  } catch (e: any) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: e?.message ?? 'Invalid cron expression' });
+  }
+});
+
+// Recurring jobs: `job` is the request each run is created from
+export const CreateScheduleRequest = z.object({
+  name: z.string().min(1).max(200),
+  cron: CronExpression,
+  enabled: z.boolean().default(true),
+  // What to do with runs missed while the server was down: run once on startup, or skip to the next slot
+  missedRunPolicy: z.enum(['run-once', 'skip']).default('run-once'),
+  job: CreateJobRequest
+});
+
+export const UpdateScheduleRequest = CreateScheduleRequest.partial();
+
+export type CreateScheduleInput = z.infer<typeof CreateScheduleRequest>;
+export type UpdateScheduleInput = z.infer<typeof UpdateScheduleRequest>;
+
+// Git credentials, keyed by host; tokens are write-only through the API
+export const CreateCredentialRequest = z.object({
+  host: z.string().min(1).max(255),
+  username: z.string().max(255).optional(),
+  token: z.string().min(1).max(4096)
+});
+
+export const UpdateCredentialRequest = CreateCredentialRequest.omit({ host: true }).partial();
+
+export type CreateCredentialInput = z.infer<typeof CreateCredentialRequest>;
+export type UpdateCredentialInput = z.infer<typeof UpdateCredentialRequest>;
+
+// Libraries: named groups of jobs searched together
+export const PutLibraryRequest = z.object({
+  jobIds: z.array(z.string().min(1)).min(1).max(200)
+});
+
+export type PutLibraryInput = z.infer<typeof PutLibraryRequest>;
+
+// Search targets one job, a list of jobs, or a library; exactly one of the three
+export const SearchRequest = z.object({
+  query: z.string().trim().min(1),
+  jobId: z.string().min(1).optional(),
+  jobIds: z.array(z.string().min(1)).min(1).max(200).optional(),
+  library: z.string().min(1).optional(),
+  limit: z.number().int().min(1).max(100).default(8),
+  mode: z.enum(['vector', 'keyword', 'hybrid']).default('hybrid')
+}).refine(r => [r.jobId, r.jobIds, r.library].filter(t => t !== undefined).length === 1, {
+  message: 'Give exactly one of jobId, jobIds or library',
+  path: ['jobId']
 });
 
+export type SearchInput = z.infer<typeof SearchRequest>;
+
 // Domain types
 export type JobStatus = 'queued' | 'running' | 'failed' | 'completed';
 
+export type DocumentKind = 'pdf' | 'docx' | 'pptx';
+
 export type Job = {
   id: string;
   type: 'docs' | 'repo';
@@ -21,6 +150,37 @@ export type Job = {
   format: 'rag' | 'markdown';
   error?: string;
   files?: FileRec[];
+  respectRobots?: boolean;
+  userAgent?: string;
+  discovery?: 'links' | 'sitemap' | 'both';
+  concurrency?: number;
+  perHostConcurrency?: number;
+  perHostRps?: number;
+  include?: string[];
+  exclude?: string[];
+  stayUnderSeedPath?: boolean;
+  allowedOrigins?: string[];
+  render?: 'static' | 'browser';
+  waitForSelector?: string;
+  renderTimeoutMs?: number;
+  contentSelector?: string;
+  documentTypes?: DocumentKind[];
+  maxDocumentBytes?: number;
+  ref?: string;
+  subdir?: string;
+  repoPreset?: 'all' | 'docs';
+  repoInclude?: string[];
+  repoExclude?: string[];
+  maxFileBytes?: number;
+  chunkStrategy?: 'sentences' | 'markdown';
+  chunkSize?: number;
+  chunkOverlap?: number;
+  tokenizer?: 'cl100k' | 'o200k' | 'estimate';
+  embeddingProvider?: 'ollama' | 'openai' | 'local';
+  embeddingModel?: string;
+  // Set on refresh runs: the files stored by the previous run of this job
+  previousFiles?: FileRec[];
+  scheduleId?: string;
 };
 
 export type FileRec = {
@@ -31,8 +191,22 @@ export type FileRec = {
   type: 'doc' | 'code';
   text?: string;
   sizeBytes?: number;
+  etag?: string;
+  lastModified?: string;
+  contentHash?: string;
+  // Extracted documents: where each page (PDF page, DOCX rendered page, PPTX slide) starts in `text`
+  pages?: PageSpan[];
+  // Repo files: commit SHA the file was read at
+  commit?: string;
 };
 
+// Repo jobs: what each repository URL resolved to
+export type RepoRevision = { url: string; ref: string; refKind: 'branch' | 'tag' | 'commit'; commit: string; subdir?: string };
+
+export type RepoFailure = { url: string; error: string };
+
+export type PageSpan = { page: number; offset: number };
+
 // Response schemas
 export const JobStatusResponse = z.object({
   status: z.enum(['queued', 'running', 'failed', 'completed']),
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+// Loaded with --configLoader runner (see package.json): bundling it would read the root
+// tsconfig.json, which is the frontend's
+
+export default defineConfig({
+  test: {
+    include: ['server/**/*.test.ts'],
+    environment: 'node',
+    // better-sqlite3 is a native module; child processes are the safe pool for it
+    pool: 'forks',
+    env: {
+      DATABASE_PATH: ':memory:',
+      LOG_LEVEL: 'silent',
+    },
+  },
+});
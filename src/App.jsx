@@ -9,6 +9,7 @@ import NewJob from './pages/NewJob';
 import JobProgress from './pages/JobProgress';
 import Results from './pages/Results';
 import Settings from './pages/Settings';
+import Schedules from './pages/Schedules';
 import ThemeProvider from './context/ThemeContext';
 
 function App() {
@@ -26,6 +27,7 @@ function App() {
                   <Route path="/new" element={<NewJob />} />
                   <Route path="/jobs/:id/progress" element={<JobProgress />} />
                   <Route path="/jobs/:id/results" element={<Results />} />
+                  <Route path="/schedules" element={<Schedules />} />
                   <Route path="/settings" element={<Settings />} />
                 </Routes>
               </main>
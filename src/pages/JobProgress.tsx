@@ -12,6 +12,9 @@ const JobProgress = () => {
     status: 'queued' | 'running' | 'failed' | 'completed';
     progress: number;
     logs: string[];
+    revisions?: { url: string; ref: string; refKind: string; commit: string; subdir?: string }[];
+    repoFailures?: { url: string; error: string }[];
+    embedding?: { provider: string; model: string; dimension: number | null };
   }>({
     status: 'queued',
     progress: 0,
@@ -121,6 +124,36 @@ const JobProgress = () => {
         </span>
       </div>
 
+      {/* Resolved revisions (repo jobs) */}
+      {jobStatus.revisions && jobStatus.revisions.length > 0 && (
+        <ul className="mb-6 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+          {jobStatus.revisions.map((rev, i) => (
+            <li key={`${rev.url}-${i}`}>
+              {rev.url}{rev.subdir ? ` (${rev.subdir})` : ''}: {rev.refKind} <code>{rev.ref}</code> at <code>{rev.commit.slice(0, 12)}</code>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Embedding model the job's vectors were built with */}
+      {jobStatus.embedding && (
+        <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+          Embeddings: {jobStatus.embedding.provider} <code>{jobStatus.embedding.model}</code>
+          {jobStatus.embedding.dimension ? ` (${jobStatus.embedding.dimension} dimensions)` : ''}
+        </p>
+      )}
+
+      {/* Repos that failed while others succeeded */}
+      {jobStatus.repoFailures && jobStatus.repoFailures.length > 0 && (
+        <ul className="mb-6 space-y-1 text-sm text-red-700 dark:text-red-300">
+          {jobStatus.repoFailures.map((failure, i) => (
+            <li key={`${failure.url}-${i}`}>
+              {failure.url}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Progress Bar */}
       <div className="mb-8">
         <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-700">
@@ -10,28 +10,73 @@ type FormData = {
   depth: number;
   maxPages: number;
   format: 'rag' | 'markdown';
+  include: string;
+  exclude: string;
+  stayUnderSeedPath: boolean;
+  allowedOrigins: string;
+  documentTypes: Array<'pdf' | 'docx' | 'pptx'>;
+  ref: string;
+  subdir: string;
+  repoPreset: 'all' | 'docs';
+  repoInclude: string;
+  repoExclude: string;
+  maxFileKb: number;
+  chunkStrategy: 'sentences' | 'markdown';
+  chunkSize: number;
+  chunkOverlap: number;
+  tokenizer: 'cl100k' | 'o200k' | 'estimate';
+  embeddingProvider: '' | 'ollama' | 'openai' | 'local';
+  embeddingModel: string;
 };
 
+const DOCUMENT_TYPES = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word (.docx)' },
+  { value: 'pptx', label: 'PowerPoint (.pptx)' }
+] as const;
+
+// One entry per line, blank lines ignored
+const splitLines = (value: string) =>
+  (value || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line);
+
 const NewJob = () => {
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const navigate = useNavigate();
   const { fetchWithAuth, handleError, handleFormError } = useApiService();
   
-  const { control, handleSubmit, setError, formState: { errors, isSubmitting } } = useForm<FormData>({
+  const { control, handleSubmit, setError, watch, formState: { errors, isSubmitting } } = useForm<FormData>({
     defaultValues: {
       type: 'docs',
       depth: 3,
       maxPages: 100,
-      format: 'rag'
+      format: 'rag',
+      include: '',
+      exclude: '',
+      stayUnderSeedPath: false,
+      allowedOrigins: '',
+      documentTypes: ['pdf', 'docx', 'pptx'],
+      ref: '',
+      subdir: '',
+      repoPreset: 'all',
+      repoInclude: '',
+      repoExclude: '',
+      maxFileKb: 200,
+      chunkStrategy: 'sentences',
+      chunkSize: 800,
+      chunkOverlap: 120,
+      tokenizer: 'cl100k',
+      embeddingProvider: '',
+      embeddingModel: ''
     }
   });
+  const jobType = watch('type');
 
   const onSubmit = async (data: FormData) => {
     // Process URLs (trim and filter empty lines)
-    const urls = data.urls
-      .split('\n')
-      .map(url => url.trim())
-      .filter(url => url);
+    const urls = splitLines(data.urls);
     
     if (urls.length === 0) {
       setToast({ message: 'Please enter at least one valid URL', type: 'error' });
@@ -50,7 +95,28 @@ const NewJob = () => {
           type: data.type,
           depth,
           maxPages,
-          format: data.format
+          format: data.format,
+          chunkStrategy: data.chunkStrategy,
+          chunkSize: Number(data.chunkSize) || 800,
+          chunkOverlap: Number(data.chunkOverlap) || 0,
+          tokenizer: data.tokenizer,
+          ...(data.embeddingProvider ? { embeddingProvider: data.embeddingProvider } : {}),
+          ...(data.embeddingModel.trim() ? { embeddingModel: data.embeddingModel.trim() } : {}),
+          documentTypes: data.documentTypes,
+          ...(data.type === 'docs' ? {
+            include: splitLines(data.include),
+            exclude: splitLines(data.exclude),
+            stayUnderSeedPath: data.stayUnderSeedPath,
+            allowedOrigins: splitLines(data.allowedOrigins)
+          } : {}),
+          ...(data.type === 'repo' ? {
+            ...(data.ref.trim() ? { ref: data.ref.trim() } : {}),
+            ...(data.subdir.trim() ? { subdir: data.subdir.trim() } : {}),
+            repoPreset: data.repoPreset,
+            repoInclude: splitLines(data.repoInclude),
+            repoExclude: splitLines(data.repoExclude),
+            maxFileBytes: Math.round((Number(data.maxFileKb) || 200) * 1024)
+          } : {})
         })
       });
 
@@ -142,11 +208,11 @@ const NewJob = () => {
                     value="repo"
                     checked={field.value === 'repo'}
                     className="text-indigo-600 focus:ring-indigo-500 h-4 w-4"
-                    aria-label="Scrape GitHub repository"
+                    aria-label="Scrape git repository"
                   />
                 )}
               />
-              <span className="ml-2 text-gray-700 dark:text-gray-300">GitHub repo</span>
+              <span className="ml-2 text-gray-700 dark:text-gray-300">Git repo</span>
             </label>
           </div>
         </div>
@@ -207,6 +273,289 @@ const NewJob = () => {
           />
         </div>
 
+        {/* Crawl Scope (docs only) */}
+        {jobType === 'docs' && (
+          <fieldset className="space-y-4">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Crawl Scope
+            </legend>
+
+            <label className="flex items-center">
+              <Controller
+                name="stayUnderSeedPath"
+                control={control}
+                render={({ field: { value, onChange, ...field } }) => (
+                  <input
+                    {...field}
+                    type="checkbox"
+                    checked={value}
+                    onChange={e => onChange(e.target.checked)}
+                    className="text-indigo-600 focus:ring-indigo-500 h-4 w-4 rounded"
+                    aria-label="Only crawl pages under the seed URL path"
+                  />
+                )}
+              />
+              <span className="ml-2 text-gray-700 dark:text-gray-300">Stay under seed path</span>
+            </label>
+
+            <div>
+              <label
+                htmlFor="include"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Include patterns (one per line)
+              </label>
+              <Controller
+                name="include"
+                control={control}
+                render={({ field }) => (
+                  <textarea
+                    {...field}
+                    id="include"
+                    rows={2}
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                    placeholder="/docs/v2/**\nre:/api/v[0-9]+/"
+                    aria-label="URL patterns a page must match to be crawled"
+                  />
+                )}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="exclude"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Exclude patterns (one per line)
+              </label>
+              <Controller
+                name="exclude"
+                control={control}
+                render={({ field }) => (
+                  <textarea
+                    {...field}
+                    id="exclude"
+                    rows={2}
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                    placeholder="/blog/**\n/changelog/**"
+                    aria-label="URL patterns that are never crawled"
+                  />
+                )}
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="allowedOrigins"
+                className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+              >
+                Extra allowed origins (one per line)
+              </label>
+              <Controller
+                name="allowedOrigins"
+                control={control}
+                render={({ field }) => (
+                  <textarea
+                    {...field}
+                    id="allowedOrigins"
+                    rows={2}
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                    placeholder="https://api.example.com"
+                    aria-label="Additional origins the crawler may follow links to"
+                  />
+                )}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Patterns are globs matched against the URL path (or the full URL when they start with http), or regular expressions prefixed with <code>re:</code>.
+            </p>
+          </fieldset>
+        )}
+
+        {/* Revision and subdirectory (repo only) */}
+        {jobType === 'repo' && (
+          <fieldset className="space-y-4">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Revision
+            </legend>
+            <div className="flex space-x-4">
+              <div className="flex-1">
+                <label
+                  htmlFor="ref"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Branch, tag or commit
+                </label>
+                <Controller
+                  name="ref"
+                  control={control}
+                  render={({ field }) => (
+                    <input
+                      {...field}
+                      id="ref"
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                      placeholder="default branch"
+                    />
+                  )}
+                />
+              </div>
+              <div className="flex-1">
+                <label
+                  htmlFor="subdir"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Subdirectory
+                </label>
+                <Controller
+                  name="subdir"
+                  control={control}
+                  render={({ field }) => (
+                    <input
+                      {...field}
+                      id="subdir"
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                      placeholder="whole repository"
+                    />
+                  )}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Tree URLs such as <code>github.com/org/repo/tree/v2.1/docs</code> work too; these fields take precedence.
+            </p>
+          </fieldset>
+        )}
+
+        {/* File selection (repo only) */}
+        {jobType === 'repo' && (
+          <fieldset className="space-y-4">
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Files
+            </legend>
+            <div className="flex space-x-4">
+              <div className="flex-1">
+                <label
+                  htmlFor="repoPreset"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Collect
+                </label>
+                <Controller
+                  name="repoPreset"
+                  control={control}
+                  render={({ field }) => (
+                    <select
+                      {...field}
+                      id="repoPreset"
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                    >
+                      <option value="all">Docs, code and config</option>
+                      <option value="docs">Docs only</option>
+                    </select>
+                  )}
+                />
+              </div>
+              <div className="w-40">
+                <label
+                  htmlFor="maxFileKb"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Max file size (KB)
+                </label>
+                <Controller
+                  name="maxFileKb"
+                  control={control}
+                  rules={{ min: 1, max: 10240 }}
+                  render={({ field }) => (
+                    <input
+                      {...field}
+                      type="number"
+                      id="maxFileKb"
+                      min={1}
+                      max={10240}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                    />
+                  )}
+                />
+              </div>
+            </div>
+            <div className="flex space-x-4">
+              <div className="flex-1">
+                <label
+                  htmlFor="repoInclude"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Also include (one glob per line)
+                </label>
+                <Controller
+                  name="repoInclude"
+                  control={control}
+                  render={({ field }) => (
+                    <textarea
+                      {...field}
+                      id="repoInclude"
+                      rows={3}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                      placeholder="**/*.proto"
+                    />
+                  )}
+                />
+              </div>
+              <div className="flex-1">
+                <label
+                  htmlFor="repoExclude"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1"
+                >
+                  Exclude (one glob per line)
+                </label>
+                <Controller
+                  name="repoExclude"
+                  control={control}
+                  render={({ field }) => (
+                    <textarea
+                      {...field}
+                      id="repoExclude"
+                      rows={3}
+                      className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                      placeholder="**/test/**"
+                    />
+                  )}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Globs are relative to the repository root. Dependency and build directories (<code>node_modules</code>, <code>vendor</code>, <code>dist</code>, …),
+              lockfiles, binary, generated and minified files are always skipped.
+            </p>
+          </fieldset>
+        )}
+
+        {/* Document ingestion */}
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Extract text from documents
+          </legend>
+          <Controller
+            name="documentTypes"
+            control={control}
+            render={({ field: { value, onChange } }) => (
+              <div className="flex space-x-6">
+                {DOCUMENT_TYPES.map(doc => (
+                  <label key={doc.value} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={value.includes(doc.value)}
+                      onChange={e => onChange(e.target.checked ? [...value, doc.value] : value.filter(v => v !== doc.value))}
+                      className="text-indigo-600 focus:ring-indigo-500 h-4 w-4 rounded"
+                    />
+                    <span className="ml-2 text-gray-700 dark:text-gray-300">{doc.label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          />
+        </fieldset>
+
         {/* Output Format */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -251,6 +600,147 @@ const NewJob = () => {
           </div>
         </div>
 
+        {/* Chunking */}
+        <div>
+          <label htmlFor="chunkStrategy" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Chunking
+          </label>
+          <Controller
+            name="chunkStrategy"
+            control={control}
+            render={({ field }) => (
+              <select
+                {...field}
+                id="chunkStrategy"
+                className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+              >
+                <option value="sentences">By sentences</option>
+                <option value="markdown">By Markdown headings</option>
+              </select>
+            )}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Heading-based chunks follow the document's sections, keep code blocks and tables whole and carry their
+            heading path (Guide &gt; Auth &gt; OAuth). Source code is always chunked by symbol.
+          </p>
+        </div>
+
+        {/* Chunk size */}
+        <div>
+          <div className="flex space-x-4">
+            <div className="flex-1">
+              <label htmlFor="chunkSize" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Chunk size (tokens)
+              </label>
+              <Controller
+                name="chunkSize"
+                control={control}
+                rules={{ min: 64, max: 8192 }}
+                render={({ field }) => (
+                  <input
+                    {...field}
+                    type="number"
+                    id="chunkSize"
+                    min={64}
+                    max={8192}
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                  />
+                )}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="chunkOverlap" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Overlap (tokens)
+              </label>
+              <Controller
+                name="chunkOverlap"
+                control={control}
+                rules={{ min: 0, max: 2048 }}
+                render={({ field }) => (
+                  <input
+                    {...field}
+                    type="number"
+                    id="chunkOverlap"
+                    min={0}
+                    max={2048}
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                  />
+                )}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="tokenizer" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Tokenizer
+              </label>
+              <Controller
+                name="tokenizer"
+                control={control}
+                render={({ field }) => (
+                  <select
+                    {...field}
+                    id="tokenizer"
+                    className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="cl100k">cl100k (BPE)</option>
+                    <option value="o200k">o200k (BPE)</option>
+                    <option value="estimate">Estimate (4 chars/token)</option>
+                  </select>
+                )}
+              />
+            </div>
+          </div>
+          {(errors.chunkSize || errors.chunkOverlap) && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {errors.chunkOverlap?.message || errors.chunkSize?.message || 'Chunk size must be 64–8192 tokens, overlap 0–2048'}
+            </p>
+          )}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Chunks are also capped at what the embedding model accepts.
+          </p>
+        </div>
+
+        {/* Embeddings */}
+        <div className="flex space-x-4">
+          <div className="flex-1">
+            <label htmlFor="embeddingProvider" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Embedding provider
+            </label>
+            <Controller
+              name="embeddingProvider"
+              control={control}
+              render={({ field }) => (
+                <select
+                  {...field}
+                  id="embeddingProvider"
+                  className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="">Server default</option>
+                  <option value="ollama">Ollama</option>
+                  <option value="openai">OpenAI-compatible</option>
+                  <option value="local">Local (in-process)</option>
+                </select>
+              )}
+            />
+          </div>
+          <div className="flex-1">
+            <label htmlFor="embeddingModel" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Embedding model
+            </label>
+            <Controller
+              name="embeddingModel"
+              control={control}
+              render={({ field }) => (
+                <input
+                  {...field}
+                  id="embeddingModel"
+                  placeholder="Provider default"
+                  className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white"
+                />
+              )}
+            />
+          </div>
+        </div>
+
         <button
           type="submit"
           disabled={isSubmitting}
@@ -16,8 +16,23 @@ const Results = () => {
   const [isDownloading, setIsDownloading] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [searchLimit, setSearchLimit] = useState<number>(8);
+  const [searchMode, setSearchMode] = useState<'hybrid' | 'vector' | 'keyword'>('hybrid');
   const [searching, setSearching] = useState<boolean>(false);
-  const [hits, setHits] = useState<{ score: number; name: string; url: string; text_snippet: string }[]>([]);
+  const [hits, setHits] = useState<{
+    score: number;
+    matchedBy?: Array<'vector' | 'keyword'>;
+    name: string;
+    url: string;
+    page?: number;
+    headingPath?: string;
+    symbol?: string;
+    symbolKind?: string;
+    startLine?: number;
+    endLine?: number;
+    lineUrl?: string;
+    text_snippet: string;
+    highlights?: Array<[number, number]>;
+  }[]>([]);
 
   useEffect(() => {
     const fetchResults = async () => {
@@ -117,7 +132,8 @@ const Results = () => {
         body: JSON.stringify({
           query: searchQuery,
           jobId: id,
-          limit: searchLimit
+          limit: searchLimit,
+          mode: searchMode
         })
       });
       if (!response.ok) throw new Error('Search failed');
@@ -133,9 +149,26 @@ const Results = () => {
     }
   };
 
+  // Snippet with the matched keyword spans marked
+  const renderSnippet = (text: string, highlights: Array<[number, number]> = []) => {
+    const parts: React.ReactNode[] = [];
+    let pos = 0;
+    highlights.forEach(([start, end], i) => {
+      if (start > pos) parts.push(text.slice(pos, start));
+      parts.push(
+        <mark key={i} className="rounded bg-yellow-200 px-0.5 text-gray-900 dark:bg-yellow-600 dark:text-white">
+          {text.slice(start, end)}
+        </mark>
+      );
+      pos = end;
+    });
+    parts.push(text.slice(pos));
+    return parts;
+  };
+
   const renderSearchPanel = () => (
     <div className="mb-6 rounded-lg border border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-800">
-      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Semantic Search</h2>
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">Search</h2>
       <div className="flex flex-col sm:flex-row sm:items-center gap-3">
         <input
           type="text"
@@ -154,6 +187,17 @@ const Results = () => {
           aria-label="Top K"
           title="Top K results"
         />
+        <select
+          value={searchMode}
+          onChange={(e) => setSearchMode(e.target.value as 'hybrid' | 'vector' | 'keyword')}
+          className="rounded-md border px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white dark:border-gray-600"
+          aria-label="Search mode"
+          title="Vector finds related passages, keyword finds exact terms, hybrid combines both"
+        >
+          <option value="hybrid">Hybrid</option>
+          <option value="vector">Vector</option>
+          <option value="keyword">Keyword</option>
+        </select>
         <button
           onClick={handleSearch}
           disabled={searching}
@@ -168,11 +212,21 @@ const Results = () => {
           {hits.map((h, idx) => (
             <div key={idx} className="p-3 rounded-md bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
               <div className="flex justify-between items-center">
-                <div className="text-sm text-gray-600 dark:text-gray-400">Score: {typeof h.score === 'number' ? h.score.toFixed(3) : h.score}</div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Score: {typeof h.score === 'number' ? h.score.toFixed(3) : h.score}
+                  {h.matchedBy?.map(retriever => (
+                    <span
+                      key={retriever}
+                      className="ml-2 text-xs px-1.5 py-0.5 rounded bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                    >
+                      {retriever}
+                    </span>
+                  ))}
+                </div>
                 <div className="space-x-2">
                   {h.url && (
                     <button
-                      onClick={() => handleCopyUrl(h.url)}
+                      onClick={() => handleCopyUrl(h.lineUrl || h.url)}
                       className="text-xs px-2 py-1 bg-indigo-100 text-indigo-700 rounded hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300"
                     >
                       Copy URL
@@ -190,10 +244,22 @@ const Results = () => {
               </div>
               <div className="mt-2 text-sm">
                 <span className="font-medium text-gray-900 dark:text-white">{h.name || 'Result'}</span>
+                {h.page && <span className="ml-2 text-gray-500 dark:text-gray-400">page {h.page}</span>}
+                {h.headingPath && <span className="ml-2 text-gray-500 dark:text-gray-400">{h.headingPath}</span>}
+                {h.symbol && (
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">
+                    {h.symbolKind} <code>{h.symbol}</code>
+                  </span>
+                )}
+                {h.startLine && (
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">
+                    lines {h.startLine}–{h.endLine}
+                  </span>
+                )}
               </div>
               {h.text_snippet && (
                 <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 line-clamp-4">
-                  {h.text_snippet}
+                  {renderSnippet(h.text_snippet, h.highlights)}
                 </p>
               )}
             </div>
@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import { Link } from 'react-router-dom';
+import useApiService from '../services/api';
+import Toasts from '../components/feedback/Toasts';
+
+type ScheduleJob = {
+  id: string;
+  status: 'queued' | 'running' | 'failed' | 'completed';
+  createdAt: string;
+};
+
+type Schedule = {
+  id: string;
+  name: string;
+  cron: string;
+  enabled: boolean;
+  missedRunPolicy: 'run-once' | 'skip';
+  job: { urls: string[]; type: 'docs' | 'repo'; format: 'rag' | 'markdown' };
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastJob: { id: string; status: ScheduleJob['status']; progress: number } | null;
+  recentJobs: ScheduleJob[];
+};
+
+type FormData = {
+  name: string;
+  cron: string;
+  urls: string;
+  type: 'docs' | 'repo';
+  format: 'rag' | 'markdown';
+  missedRunPolicy: 'run-once' | 'skip';
+};
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white';
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : '—');
+
+const statusColor = (status: ScheduleJob['status']) => {
+  switch (status) {
+    case 'queued': return 'text-yellow-700 dark:text-yellow-300';
+    case 'running': return 'text-blue-700 dark:text-blue-300';
+    case 'failed': return 'text-red-700 dark:text-red-300';
+    case 'completed': return 'text-green-700 dark:text-green-300';
+    default: return '';
+  }
+};
+
+const Schedules = () => {
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { fetchWithAuth, handleError, handleFormError } = useApiService();
+  const api = `${import.meta.env.VITE_API_URL}/api/schedules`;
+
+  const { control, handleSubmit, reset, setError, formState: { errors, isSubmitting } } = useForm<FormData>({
+    defaultValues: {
+      name: '',
+      cron: '0 3 * * *',
+      urls: '',
+      type: 'docs',
+      format: 'rag',
+      missedRunPolicy: 'run-once'
+    }
+  });
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetchWithAuth(api);
+      setSchedules(data.schedules);
+    } catch (error) {
+      handleError(error, load);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, fetchWithAuth, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const onSubmit = async (data: FormData) => {
+    const urls = data.urls.split('\n').map(line => line.trim()).filter(line => line);
+    if (urls.length === 0) {
+      setToast({ message: 'Please enter at least one valid URL', type: 'error' });
+      return;
+    }
+    try {
+      await fetchWithAuth(api, {
+        method: 'POST',
+        body: JSON.stringify({
+          name: data.name,
+          cron: data.cron,
+          missedRunPolicy: data.missedRunPolicy,
+          job: { urls, type: data.type, format: data.format }
+        })
+      });
+      setToast({ message: 'Schedule created', type: 'success' });
+      reset();
+      load();
+    } catch (error) {
+      if (!handleFormError(error, setError)) {
+        handleError(error, () => onSubmit(data));
+      }
+    }
+  };
+
+  const toggle = async (schedule: Schedule) => {
+    try {
+      await fetchWithAuth(`${api}/${schedule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled: !schedule.enabled })
+      });
+      load();
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const runNow = async (schedule: Schedule) => {
+    try {
+      await fetchWithAuth(`${api}/${schedule.id}/run`, { method: 'POST' });
+      setToast({ message: `Started a run of "${schedule.name}"`, type: 'success' });
+      load();
+    } catch (error) {
+      handleError(error);
+    }
+  };
+
+  const remove = async (schedule: Schedule) => {
+    if (!window.confirm(`Delete schedule "${schedule.name}"? Jobs it created are kept.`)) return;
+    try {
+      // 204 has no body, so skip the JSON handling in fetchWithAuth
+      const response = await fetch(`${api}/${schedule.id}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete schedule');
+      load();
+    } catch (error) {
+      setToast({ message: error instanceof Error ? error.message : 'Failed to delete schedule', type: 'error' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {toast && <Toasts message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+
+      <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">
+        Schedules
+      </h1>
+
+      {/* Existing schedules */}
+      <div className="mb-10 overflow-x-auto">
+        {isLoading ? (
+          <p className="text-gray-600 dark:text-gray-400">Loading…</p>
+        ) : schedules.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400">No schedules yet.</p>
+        ) : (
+          <table className="min-w-full text-sm text-left text-gray-700 dark:text-gray-300">
+            <thead className="border-b border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white">
+              <tr>
+                <th className="py-2 pr-4">Name</th>
+                <th className="py-2 pr-4">Cron (UTC)</th>
+                <th className="py-2 pr-4">Next run</th>
+                <th className="py-2 pr-4">Last run</th>
+                <th className="py-2 pr-4">Recent jobs</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map(schedule => (
+                <tr key={schedule.id} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                  <td className="py-2 pr-4">
+                    <div className="font-medium text-gray-900 dark:text-white">{schedule.name}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {schedule.job.type} · {schedule.job.urls.join(', ')}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4"><code>{schedule.cron}</code></td>
+                  <td className="py-2 pr-4">{schedule.enabled ? formatTime(schedule.nextRunAt) : 'Paused'}</td>
+                  <td className="py-2 pr-4">{formatTime(schedule.lastRunAt)}</td>
+                  <td className="py-2 pr-4">
+                    <ul className="space-y-1">
+                      {schedule.recentJobs.map(job => (
+                        <li key={job.id}>
+                          <Link
+                            to={job.status === 'completed' ? `/jobs/${job.id}/results` : `/jobs/${job.id}/progress`}
+                            className="text-indigo-600 hover:underline dark:text-indigo-400"
+                          >
+                            {formatTime(job.createdAt)}
+                          </Link>{' '}
+                          <span className={statusColor(job.status)}>{job.status}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="py-2 space-x-3 whitespace-nowrap text-right">
+                    <button onClick={() => runNow(schedule)} className="text-indigo-600 hover:underline dark:text-indigo-400">
+                      Run now
+                    </button>
+                    <button onClick={() => toggle(schedule)} className="text-gray-700 hover:underline dark:text-gray-300">
+                      {schedule.enabled ? 'Pause' : 'Resume'}
+                    </button>
+                    <button onClick={() => remove(schedule)} className="text-red-600 hover:underline dark:text-red-400">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* New schedule */}
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-3">
+        New Schedule
+      </h2>
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-w-2xl">
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Name
+          </label>
+          <Controller
+            name="name"
+            control={control}
+            rules={{ required: true }}
+            render={({ field }) => <input {...field} id="name" className={inputClass} />}
+          />
+          {errors.name && <p className="mt-1 text-sm text-red-600 dark:text-red-400">Please enter a name</p>}
+        </div>
+
+        <div>
+          <label htmlFor="cron" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Cron expression (UTC)
+          </label>
+          <Controller
+            name="cron"
+            control={control}
+            rules={{ required: true }}
+            render={({ field }) => <input {...field} id="cron" className={inputClass} placeholder="0 3 * * *" />}
+          />
+          {errors.cron && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+              {errors.cron.message || 'Please enter a cron expression'}
+            </p>
+          )}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            minute hour day month weekday, e.g. <code>0 3 * * MON-FRI</code>, or <code>@daily</code> / <code>@weekly</code>
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="urls" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Target URLs (one per line)
+          </label>
+          <Controller
+            name="urls"
+            control={control}
+            rules={{ required: true }}
+            render={({ field }) => <textarea {...field} id="urls" rows={3} className={inputClass} />}
+          />
+        </div>
+
+        <div className="flex space-x-6">
+          <div>
+            <label htmlFor="type" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Scrape Type
+            </label>
+            <Controller
+              name="type"
+              control={control}
+              render={({ field }) => (
+                <select {...field} id="type" className={inputClass}>
+                  <option value="docs">Docs</option>
+                  <option value="repo">Git repo</option>
+                </select>
+              )}
+            />
+          </div>
+          <div>
+            <label htmlFor="format" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Output Format
+            </label>
+            <Controller
+              name="format"
+              control={control}
+              render={({ field }) => (
+                <select {...field} id="format" className={inputClass}>
+                  <option value="rag">RAG JSONL</option>
+                  <option value="markdown">Markdown</option>
+                </select>
+              )}
+            />
+          </div>
+          <div>
+            <label htmlFor="missedRunPolicy" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Missed runs
+            </label>
+            <Controller
+              name="missedRunPolicy"
+              control={control}
+              render={({ field }) => (
+                <select {...field} id="missedRunPolicy" className={inputClass}>
+                  <option value="run-once">Run once on startup</option>
+                  <option value="skip">Skip</option>
+                </select>
+              )}
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Creating…' : 'Create Schedule'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Schedules;
@@ -0,0 +1,228 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useForm, Controller } from 'react-hook-form';
+import useApiService from '../services/api';
+import Toasts from '../components/feedback/Toasts';
+
+type Credential = {
+  host: string;
+  username: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type CredentialForm = {
+  host: string;
+  username: string;
+  token: string;
+};
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 dark:border-gray-600 px-3 py-2 shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm dark:bg-gray-700 dark:text-white';
+
+const GitCredentials = ({ onToast }: { onToast: (toast: { message: string; type: 'success' | 'error' }) => void }) => {
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // Host whose token is being replaced; the form then updates instead of creating
+  const [editing, setEditing] = useState<string | null>(null);
+  const { fetchWithAuth, handleError, handleFormError } = useApiService();
+  const api = `${import.meta.env.VITE_API_URL}/api/credentials`;
+
+  const { control, handleSubmit, reset, setError, formState: { errors, isSubmitting } } = useForm<CredentialForm>({
+    defaultValues: { host: '', username: '', token: '' }
+  });
+
+  const load = useCallback(async () => {
+    try {
+      const data = await fetchWithAuth(api);
+      setCredentials(data.credentials);
+    } catch (error) {
+      handleError(error, load);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, fetchWithAuth, handleError]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const startEditing = (credential: Credential) => {
+    setEditing(credential.host);
+    reset({ host: credential.host, username: credential.username ?? '', token: '' });
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    reset({ host: '', username: '', token: '' });
+  };
+
+  const onSubmit = async (data: CredentialForm) => {
+    const username = data.username.trim();
+    try {
+      if (editing) {
+        await fetchWithAuth(`${api}/${encodeURIComponent(editing)}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ username, ...(data.token ? { token: data.token } : {}) })
+        });
+        onToast({ message: `Updated credentials for ${editing}`, type: 'success' });
+      } else {
+        await fetchWithAuth(api, {
+          method: 'POST',
+          body: JSON.stringify({ host: data.host.trim(), token: data.token, ...(username ? { username } : {}) })
+        });
+        onToast({ message: 'Credentials saved', type: 'success' });
+      }
+      cancelEditing();
+      load();
+    } catch (error) {
+      if (!handleFormError(error, setError)) {
+        handleError(error, () => onSubmit(data));
+      }
+    }
+  };
+
+  const remove = async (credential: Credential) => {
+    if (!window.confirm(`Delete the stored token for ${credential.host}?`)) return;
+    try {
+      // 204 has no body, so skip the JSON handling in fetchWithAuth
+      const response = await fetch(`${api}/${encodeURIComponent(credential.host)}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete credentials');
+      if (editing === credential.host) cancelEditing();
+      load();
+    } catch (error) {
+      onToast({ message: error instanceof Error ? error.message : 'Failed to delete credentials', type: 'error' });
+    }
+  };
+
+  return (
+    <section className="mb-10">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+        Git credentials
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Access tokens for cloning private repositories, one per host. Tokens are stored encrypted and can't be viewed
+        again once saved.
+      </p>
+
+      <div className="mb-6 overflow-x-auto">
+        {isLoading ? (
+          <p className="text-gray-600 dark:text-gray-400">Loading…</p>
+        ) : credentials.length === 0 ? (
+          <p className="text-gray-600 dark:text-gray-400">No credentials stored.</p>
+        ) : (
+          <table className="min-w-full text-sm text-left text-gray-700 dark:text-gray-300">
+            <thead className="border-b border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white">
+              <tr>
+                <th className="py-2 pr-4">Host</th>
+                <th className="py-2 pr-4">Username</th>
+                <th className="py-2 pr-4">Updated</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {credentials.map(credential => (
+                <tr key={credential.host} className="border-b border-gray-100 dark:border-gray-800">
+                  <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{credential.host}</td>
+                  <td className="py-2 pr-4">{credential.username ?? <span className="text-gray-500">provider default</span>}</td>
+                  <td className="py-2 pr-4">{new Date(credential.updatedAt).toLocaleString()}</td>
+                  <td className="py-2 space-x-3 whitespace-nowrap text-right">
+                    <button onClick={() => startEditing(credential)} className="text-indigo-600 hover:underline dark:text-indigo-400">
+                      Edit
+                    </button>
+                    <button onClick={() => remove(credential)} className="text-red-600 hover:underline dark:text-red-400">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-w-2xl">
+        <div>
+          <label htmlFor="host" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Host
+          </label>
+          <Controller
+            name="host"
+            control={control}
+            rules={{ required: !editing }}
+            render={({ field }) => (
+              <input {...field} id="host" disabled={!!editing} className={inputClass} placeholder="github.com or git.example.com:8443" />
+            )}
+          />
+          {errors.host && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.host.message || 'Please enter a host'}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Username (optional)
+          </label>
+          <Controller
+            name="username"
+            control={control}
+            render={({ field }) => <input {...field} id="username" autoComplete="off" className={inputClass} />}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Leave empty to use the host's token username (<code>x-access-token</code> on GitHub, <code>oauth2</code> on
+            GitLab, <code>x-token-auth</code> on Bitbucket).
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {editing ? 'New token (leave empty to keep the current one)' : 'Token'}
+          </label>
+          <Controller
+            name="token"
+            control={control}
+            rules={{ required: !editing }}
+            render={({ field }) => (
+              <input {...field} id="token" type="password" autoComplete="new-password" className={inputClass} />
+            )}
+          />
+          {errors.token && (
+            <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.token.message || 'Please enter a token'}</p>
+          )}
+        </div>
+
+        <div className="space-x-3">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving…' : editing ? 'Update Credentials' : 'Save Credentials'}
+          </button>
+          {editing && (
+            <button type="button" onClick={cancelEditing} className="text-sm text-gray-700 hover:underline dark:text-gray-300">
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </section>
+  );
+};
+
+const Settings = () => {
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {toast && <Toasts message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
+
+      <h1 className="text-2xl font-bold mb-6 text-gray-900 dark:text-white">
+        Settings
+      </h1>
+
+      <GitCredentials onToast={setToast} />
+    </div>
+  );
+};
+
+export default Settings;